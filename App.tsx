@@ -1,96 +1,409 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Voxel, ViewMode, GridState, QuizState } from './types';
-import { INITIAL_VOXELS, GRID_SIZE, COLORS, MAX_HEIGHT } from './constants';
-import { CubeStage } from './components/CubeStage';
+import { Voxel, ViewMode, LayerMode, EditorTool, ViewDirection, QuizState, EditorSnapshot, GridDimensions, QuizShareOptions, QuizAnswer, QuizSetItem, QuizSetResult, SavedStructure } from './types';
+import { INITIAL_VOXELS, COLORS, DEFAULT_DIMENSIONS, DEFAULT_QUIZ_OPTIONS, DEFAULT_VIEWS } from './constants';
+import { useHistory } from './hooks/useHistory';
+import { useLibrary } from './hooks/useLibrary';
+import { CubeStage, StagePick, StageTransition } from './components/CubeStage';
 import { Grid2D } from './components/Grid2D';
 import { ToolsPanel } from './components/ToolsPanel';
 import { QuizMode } from './components/QuizMode';
 import { QuizResult } from './components/QuizResult';
+import { QuizSetSummary } from './components/QuizSetSummary';
 import { ResultModal, ShareModal } from './components/Modal';
-import { calculateStats, project3DTo2D, intersect2DTo3D, generateTopViewNumbers, generateFrontViewNumbers, generateSideViewNumbers } from './utils/voxelEngine';
-import { decodeVoxels, generateQuizUrl, clearQuizFromUrl, parseQuizFromUrl, parseTimerFromUrl } from './utils/shareUtils';
-import { Box, Layers, Scaling, ArrowLeftRight, Share2, RefreshCw, ArrowLeft, Play } from 'lucide-react';
+import { LibraryModal } from './components/LibraryModal';
+import { ExportModal } from './components/ExportModal';
+import { ImportModal } from './components/ImportModal';
+import { GeneratorModal } from './components/GeneratorModal';
+import { QuizSetModal } from './components/QuizSetModal';
+import { WorksheetModal } from './components/WorksheetModal';
+import { ResultCodeModal } from './components/ResultCodeModal';
+import { ResultsCollectorModal } from './components/ResultsCollectorModal';
+import { BlueprintCheck } from './components/BlueprintCheck';
+import { HeightMapGrid } from './components/HeightMapGrid';
+import { ViewPicker } from './components/ViewPicker';
+import { LayerPanel } from './components/LayerPanel';
+import { LayerMap } from './components/LayerMap';
+import { calculateStats, project3DTo2D, fillBlueprint, BlueprintFill, alignBlueprintGrids, analyzeBlueprint, solveProjections, ProjectionSolution, createEmptyGridState, resizeGridState, createEmptyHeightMap, resizeHeightMap, voxelsFromHeights, heightsFromVoxels, cropVoxelsToDimensions, isInBounds, isSupported, getVoxelSet, findUnsupportedVoxels, projectView, orientBlueprintGrid, getBlueprintCell, applyTransform, StructureTransform } from './utils/voxelEngine';
+import { decodePuzzle, decodeQuizSet, encodeVoxels, encodeQuizSet, generateQuizUrl, clearQuizFromUrl, parseQuizFromUrl, parseQuizSetFromUrl, parseTimerFromUrl, parseDimensionsFromUrl, parseShareOptionsFromUrl } from './utils/shareUtils';
+import { loadAutosave, saveAutosave } from './utils/storage';
+import { GeneratedPuzzle, DIFFICULTY_PRESETS } from './utils/puzzleGenerator';
+import { QUESTION_TYPES } from './utils/questionTypes';
+import { ResultRecord, getPuzzleId } from './utils/resultCodes';
+import { getHintScore, getQuizSetScore } from './utils/hints';
+import { VIEWS, getViewNumbers, getViewColors } from './utils/views';
+import { getLayerCounts, isLayerEditable } from './utils/layers';
+import { isSameShape } from './utils/shapes';
+import { Cell, FaceSelection, getBoxCells, getLineCells, addCells, setColumnHeight, selectFace, extrudeFaces, trimSelection, limitBulkEdit } from './utils/bulkTools';
+import { Box, Layers, Scaling, Share2, RefreshCw, ArrowLeft, Play, AlertTriangle, Library, Download, Upload, Dices, ClipboardList, Printer } from 'lucide-react';
+
+// Delay before writing editor changes to browser storage
+const AUTOSAVE_DELAY_MS = 500;
 
 const App: React.FC = () => {
    // --- State ---
-  const [voxels, setVoxels] = useState<Voxel[]>(INITIAL_VOXELS);
+  // Editor state from the last session (read once on mount)
+  const [restored] = useState(loadAutosave);
+
+  // Voxels, blueprint and grid size share one undo/redo history
+  const {
+    present: editor,
+    set: setEditor,
+    undo,
+    redo,
+    canUndo,
+    canRedo
+  } = useHistory<EditorSnapshot>(() =>
+    restored
+      ? {
+          voxels: restored.voxels,
+          blueprint: restored.blueprint,
+          heights: restored.heights,
+          dimensions: restored.dimensions
+        }
+      : {
+          voxels: INITIAL_VOXELS,
+          blueprint: createEmptyGridState(DEFAULT_DIMENSIONS),
+          heights: createEmptyHeightMap(DEFAULT_DIMENSIONS),
+          dimensions: DEFAULT_DIMENSIONS
+        }
+  );
+  const { voxels, blueprint, heights, dimensions } = editor;
   const [mode, setMode] = useState<ViewMode>('3d-edit');
-  const [tool, setTool] = useState<'build' | 'erase'>('build');
+  const [tool, setTool] = useState<EditorTool>('build');
+  // Box thickness / column height for the bulk tools
+  const [bulkHeight, setBulkHeight] = useState(3);
+  // Pending bulk edit: box drag start or line anchor, its ghost cells, and the extrude selection
+  const [bulkStart, setBulkStart] = useState<StagePick | null>(null);
+  const [bulkPreview, setBulkPreview] = useState<Cell[]>([]);
+  const [faceSelection, setFaceSelection] = useState<FaceSelection | null>(null);
+  // Last whole-structure transform, replayed as an animation by CubeStage
+  const [transition, setTransition] = useState<StageTransition | null>(null);
   const [showXRay, setShowXRay] = useState(false);
   const [showNumbers, setShowNumbers] = useState(true);
+  // 2D views show the color of the visible block instead of a silhouette
+  const [showColors, setShowColors] = useState(false);
+  // Physical mode: every block must rest on the floor or another block
+  const [physicalMode, setPhysicalMode] = useState(false);
+  const [blueprintFill, setBlueprintFill] = useState<BlueprintFill>('max');
+  // Blueprint sub-mode: three silhouettes, or a Top View with column heights
+  const [blueprintKind, setBlueprintKind] = useState<'views' | 'heights'>('views');
   const [selectedColor, setSelectedColor] = useState<string>(
-    COLORS.voxelDefault
+    restored?.selectedColor ?? COLORS.voxelDefault
   );
 
-  // Controls the direction of the Side View (Right vs Left)
-  const [sideViewDirection, setSideViewDirection] = useState<'right' | 'left'>(
-    'right'
-  );
+  // Layer slicing in the 3D editor; editing is limited to the active layer
+  const [layerMode, setLayerMode] = useState<LayerMode>('all');
+  const [activeLayer, setActiveLayer] = useState(0);
 
-  // Blueprint State (for 2D to 3D mode)
-  const [blueprint, setBlueprint] = useState<GridState>({
-    top: Array(GRID_SIZE).fill(Array(GRID_SIZE).fill(false)),
-    front: Array(GRID_SIZE).fill(Array(GRID_SIZE).fill(false)),
-    side: Array(GRID_SIZE).fill(Array(GRID_SIZE).fill(false))
-  });
+  // Which of the six views the projection panel shows
+  const [views, setViews] = useState<ViewDirection[]>(
+    restored?.views ?? DEFAULT_VIEWS
+  );
 
   // Quiz Mode State
   const [isQuizMode, setIsQuizMode] = useState(false);
   const [quizVoxels, setQuizVoxels] = useState<Voxel[]>([]);
+  const [quizDimensions, setQuizDimensions] =
+    useState<GridDimensions>(DEFAULT_DIMENSIONS);
+  const [quizOptions, setQuizOptions] =
+    useState<QuizShareOptions>(DEFAULT_QUIZ_OPTIONS);
   const [quizState, setQuizState] = useState<QuizState>('playing');
-  const [userAnswer, setUserAnswer] = useState<number>(0);
+  const [userAnswer, setUserAnswer] = useState<QuizAnswer>(null);
+  const [quizElapsed, setQuizElapsed] = useState(0);
+  const [quizHintsUsed, setQuizHintsUsed] = useState(0);
+  const [quizCompletedAt, setQuizCompletedAt] = useState(0);
+  // Quiz set being played (null for a single quiz)
+  const [quizSet, setQuizSet] = useState<QuizSetItem[] | null>(null);
+  const [quizSetResults, setQuizSetResults] = useState<QuizSetResult[]>([]);
   const [quizTimer, setQuizTimer] = useState<number>(0);
   const [showResultModal, setShowResultModal] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
   const [baseShareUrl, setBaseShareUrl] = useState('');
+  const [shareAnalysis, setShareAnalysis] =
+    useState<ProjectionSolution | null>(null);
+
+  // "My structures" library
+  const library = useLibrary();
+  const [showLibraryModal, setShowLibraryModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showGeneratorModal, setShowGeneratorModal] = useState(false);
+  const [showQuizSetModal, setShowQuizSetModal] = useState(false);
+  const [showWorksheetModal, setShowWorksheetModal] = useState(false);
+  const [showResultCodeModal, setShowResultCodeModal] = useState(false);
+  const [showResultsCollector, setShowResultsCollector] = useState(false);
 
   // --- Derived State ---
   const stats = useMemo(() => calculateStats(voxels), [voxels]);
 
-  // Real-time projections from 3D model
-  const currentProjections = useMemo(() => project3DTo2D(voxels), [voxels]);
+  // Kept inside the board when the grid gets lower
+  const sliceLayer = Math.min(activeLayer, dimensions.height - 1);
+  const isSlicing = mode === '3d-edit' && layerMode !== 'all';
+  const layerCounts = useMemo(
+    () => getLayerCounts(voxels, dimensions.height),
+    [voxels, dimensions.height]
+  );
 
-  // View numbers (Top: Height, Front: Depth Z, Side: Depth X)
-  const topViewNumbers = useMemo(
-    () => generateTopViewNumbers(voxels),
+  // Blocks that could not be stacked with real cubes
+  const unsupportedVoxels = useMemo(
+    () => findUnsupportedVoxels(voxels),
     [voxels]
   );
-  const frontViewNumbers = useMemo(
-    () => generateFrontViewNumbers(voxels),
-    [voxels]
+  const unsupportedIds = useMemo(
+    () => new Set(unsupportedVoxels.map((v) => v.id)),
+    [unsupportedVoxels]
   );
-  const sideViewNumbers = useMemo(
-    () => generateSideViewNumbers(voxels),
-    [voxels]
+
+  // Saved structure with the board's shape (in any rotation or position)
+  const sameShapeItem = useMemo(
+    () =>
+      showLibraryModal && voxels.length > 0
+        ? library.items.find((item) => isSameShape(item.voxels, voxels)) ?? null
+        : null,
+    [showLibraryModal, library.items, voxels]
+  );
+
+  // Real-time projections from 3D model
+  const currentProjections = useMemo(
+    () => project3DTo2D(voxels, dimensions),
+    [voxels, dimensions]
+  );
+
+  // Live check of the three blueprint views while drawing them
+  const blueprintAnalysis = useMemo(
+    () =>
+      mode === '2d-blueprint' && blueprintKind === 'views'
+        ? analyzeBlueprint(blueprint, dimensions)
+        : null,
+    [mode, blueprintKind, blueprint, dimensions]
+  );
+
+  // Height maps describe one exact structure; its Front/Side views are derived
+  const heightVoxels = useMemo(
+    () => voxelsFromHeights(heights, dimensions),
+    [heights, dimensions]
+  );
+  const blueprintViews = useMemo(
+    () =>
+      blueprintKind === 'heights'
+        ? project3DTo2D(heightVoxels, dimensions)
+        : blueprint,
+    [blueprintKind, heightVoxels, blueprint, dimensions]
+  );
+
+  // Fewest/most cubes for the drawn views. The minimum search is the slow
+  // part of blueprint editing, so it runs once and feeds both memos below
+  const blueprintSolution = useMemo(
+    () =>
+      blueprintKind === 'views' && blueprintAnalysis?.consistent
+        ? solveProjections(alignBlueprintGrids(blueprint, dimensions), dimensions)
+        : null,
+    [blueprintKind, blueprintAnalysis, blueprint, dimensions]
+  );
+
+  // Block counts a consistent blueprint can be built with
+  const blueprintRange = useMemo(() => {
+    if (blueprintKind === 'heights') {
+      const count = heightVoxels.length;
+      return { min: count, max: count, exact: true };
+    }
+    if (!blueprintSolution) return null;
+    const { min, max, exact } = blueprintSolution;
+    return { min, max, exact };
+  }, [blueprintKind, heightVoxels, blueprintSolution]);
+
+  // Ghost preview of the blueprint (random fills are previewed as Max Fill)
+  const blueprintPreview = useMemo(() => {
+    if (mode !== '2d-blueprint') return [];
+    if (blueprintKind === 'heights') return heightVoxels;
+    if (blueprintFill === 'min' && blueprintSolution?.consistent) return blueprintSolution.minVoxels;
+    return fillBlueprint(blueprint, dimensions, 'max');
+  }, [mode, blueprintKind, heightVoxels, blueprint, dimensions, blueprintFill, blueprintSolution]);
+
+  // Height maps derive Front/Side, so only the silhouette blueprint is drawn by hand
+  const isHeightMapMode = mode === '2d-blueprint' && blueprintKind === 'heights';
+  const blueprintEditable = mode === '2d-blueprint' && blueprintKind === 'views';
+
+  // Grid per selected view: live projections while editing in 3D, the
+  // blueprint turned to face the viewer otherwise
+  const viewGrids = useMemo(
+    () =>
+      views.map((direction) =>
+        mode === '3d-edit'
+          ? {
+              direction,
+              data: projectView(voxels, dimensions, direction).filled,
+              // View numbers (Top: Height, others: Depth)
+              numbers: showNumbers
+                ? getViewNumbers(voxels, dimensions, direction)
+                : undefined,
+              colors: showColors
+                ? getViewColors(voxels, dimensions, direction)
+                : undefined,
+              highlights: undefined
+            }
+          : {
+              direction,
+              data: orientBlueprintGrid(blueprintViews, direction),
+              numbers: undefined,
+              colors: undefined,
+              highlights:
+                blueprintAnalysis &&
+                orientBlueprintGrid(blueprintAnalysis.cells, direction)
+            }
+      ),
+    [views, mode, voxels, dimensions, showNumbers, showColors, blueprintViews, blueprintAnalysis]
   );
 
   // --- Handlers ---
 
   const handleAddVoxel = (x: number, y: number, z: number) => {
     if (mode === '2d-blueprint') return;
-    if (
-      x < 0 ||
-      x >= GRID_SIZE ||
-      z < 0 ||
-      z >= GRID_SIZE ||
-      y < 0 ||
-      y >= MAX_HEIGHT
-    )
-      return;
+    if (!isInBounds(x, y, z, dimensions)) return;
+    if (!isLayerEditable(y, layerMode, sliceLayer)) return;
+    if (physicalMode && !isSupported(x, y, z, getVoxelSet(voxels))) return;
 
     // Check collision
     const exists = voxels.some((v) => v.x === x && v.y === y && v.z === z);
     if (!exists) {
-      setVoxels((prev) => [
+      setEditor((prev) => ({
         ...prev,
-        { x, y, z, id: `${x},${y},${z}`, color: selectedColor }
-      ]);
+        voxels: [
+          ...prev.voxels,
+          { x, y, z, id: `${x},${y},${z}`, color: selectedColor }
+        ]
+      }));
     }
   };
 
   const handleRemoveVoxel = (id: string) => {
     if (mode === '2d-blueprint') return;
-    setVoxels((prev) => prev.filter((v) => v.id !== id));
+    const target = voxels.find((v) => v.id === id);
+    if (target && !isLayerEditable(target.y, layerMode, sliceLayer)) return;
+    if (physicalMode) {
+      // Removing a block that holds another one up would leave it floating
+      if (
+        target &&
+        voxels.some(
+          (v) => v.x === target.x && v.y === target.y + 1 && v.z === target.z
+        )
+      )
+        return;
+    }
+    setEditor((prev) => ({
+      ...prev,
+      voxels: prev.voxels.filter((v) => v.id !== id)
+    }));
+  };
+
+  // Layer map cells add or remove the block on the active layer
+  const handleLayerCellToggle = (x: number, z: number) => {
+    const existing = voxels.find(
+      (v) => v.x === x && v.y === sliceLayer && v.z === z
+    );
+    if (existing) handleRemoveVoxel(existing.id);
+    else handleAddVoxel(x, sliceLayer, z);
+  };
+
+  // Runs a bulk tool as a single undo step, within the layer and physical limits
+  const limitEdit = (before: Voxel[], after: Voxel[]) =>
+    limitBulkEdit(before, after, (y) => isLayerEditable(y, layerMode, sliceLayer), physicalMode);
+
+  const applyBulkEdit = (edit: (voxels: Voxel[]) => Voxel[]) => {
+    setEditor((prev) => {
+      const next = limitEdit(prev.voxels, edit(prev.voxels));
+      return next === prev.voxels ? prev : { ...prev, voxels: next };
+    });
+  };
+
+  const clearBulkState = () => {
+    setBulkStart(null);
+    setBulkPreview([]);
+    setFaceSelection(null);
+  };
+
+  // Drop half-finished bulk edits when switching tools or modes
+  useEffect(() => {
+    clearBulkState();
+  }, [tool, mode]);
+
+  const handleStagePick = (pick: StagePick, phase: 'start' | 'move' | 'end') => {
+    const boxSize = Math.max(1, bulkHeight);
+    switch (tool) {
+      case 'box':
+        if (phase === 'start') {
+          setBulkStart(pick);
+          setBulkPreview(getBoxCells(pick.cell, pick.cell, pick.normal, boxSize));
+        } else if (bulkStart) {
+          const cells = getBoxCells(bulkStart.cell, pick.cell, bulkStart.normal, boxSize);
+          if (phase === 'move') {
+            setBulkPreview(cells);
+          } else {
+            applyBulkEdit((prev) => addCells(prev, cells, selectedColor, dimensions));
+            clearBulkState();
+          }
+        }
+        break;
+      case 'line':
+        if (!bulkStart) {
+          setBulkStart(pick);
+          setBulkPreview([pick.cell]);
+        } else {
+          const cells = getLineCells(bulkStart.cell, pick.cell);
+          applyBulkEdit((prev) => addCells(prev, cells, selectedColor, dimensions));
+          clearBulkState();
+        }
+        break;
+      case 'column': {
+        // The clicked block's own column (or the floor cell)
+        const { x, z } = pick.voxel ?? pick.cell;
+        applyBulkEdit((prev) => setColumnHeight(prev, x, z, bulkHeight, selectedColor, dimensions));
+        break;
+      }
+      case 'extrude':
+        setFaceSelection(pick.voxel ? selectFace(voxels, pick.voxel, pick.normal) : null);
+        break;
+    }
+  };
+
+  const handleExtrude = (direction: 1 | -1) => {
+    if (!faceSelection) return;
+    const result = extrudeFaces(voxels, faceSelection, direction, selectedColor, dimensions);
+    // Limits may drop part of the edit, so the selection follows what was kept
+    const next = limitEdit(voxels, result.voxels);
+    if (next !== voxels) setEditor((prev) => ({ ...prev, voxels: next }));
+    const selection = trimSelection(result.selection, next);
+    setFaceSelection(selection.cells.length > 0 ? selection : null);
+  };
+
+  const isBulkTool = tool !== 'build' && tool !== 'erase';
+
+  // Transformed blocks, or null if they don't fit the grid (or, in
+  // physical mode, would leave more blocks floating than before)
+  const getTransformedVoxels = (transform: StructureTransform): Voxel[] | null => {
+    const next = applyTransform(voxels, transform, dimensions).voxels;
+    if (!next) return null;
+    if (physicalMode && findUnsupportedVoxels(next).length > unsupportedVoxels.length) return null;
+    return next;
+  };
+
+  const canTransform = (transform: StructureTransform) =>
+    voxels.length > 0 && getTransformedVoxels(transform) !== null;
+
+  const handleTransform = (transform: StructureTransform) => {
+    const next = getTransformedVoxels(transform);
+    if (!next) return;
+    setTransition((prev) => ({
+      key: (prev?.key ?? 0) + 1,
+      from: voxels,
+      rotate:
+        transform.kind === 'rotate'
+          ? { axis: transform.axis, angle: (transform.direction * Math.PI) / 2 }
+          : undefined,
+      mirror: transform.kind === 'mirror' ? transform.axis : undefined
+    }));
+    setEditor((prev) => ({ ...prev, voxels: next }));
+    clearBulkState();
   };
 
   // Wrapper for 3D stage interaction that checks current tool
@@ -108,48 +421,144 @@ const App: React.FC = () => {
     r: number,
     c: number
   ) => {
-    setBlueprint((prev) => {
-      const newGrid = prev[view].map((row, rIdx) =>
+    setEditor((prev) => {
+      const newGrid = prev.blueprint[view].map((row, rIdx) =>
         row.map((val, cIdx) => (rIdx === r && cIdx === c ? !val : val))
       );
-      return { ...prev, [view]: newGrid };
+      return { ...prev, blueprint: { ...prev.blueprint, [view]: newGrid } };
     });
   };
 
+  const handleHeightChange = (r: number, c: number, height: number) => {
+    setEditor((prev) => ({
+      ...prev,
+      heights: prev.heights.map((row, rIdx) =>
+        row.map((val, cIdx) => (rIdx === r && cIdx === c ? height : val))
+      )
+    }));
+  };
+
   const generateFromBlueprint = () => {
-    const newVoxels = intersect2DTo3D(blueprint);
+    if (
+      blueprintKind === 'views' &&
+      blueprintAnalysis &&
+      !blueprintAnalysis.consistent &&
+      !confirm(
+        '세 모습이 서로 맞지 않아 빨간 칸은 빠진 채로 만들어집니다. 계속할까요?'
+      )
+    )
+      return;
+    const newVoxels =
+      blueprintKind === 'heights'
+        ? heightVoxels
+        : fillBlueprint(blueprint, dimensions, blueprintFill);
     // Apply selected color to generated voxels or use default
     const coloredVoxels = newVoxels.map((v) => ({
       ...v,
       color: selectedColor
     }));
-    setVoxels(coloredVoxels);
+    // One undo step: restores both the previous voxels and the blueprint
+    setEditor((prev) => ({ ...prev, voxels: coloredVoxels }));
     setMode('3d-edit'); // Switch back to 3D to show result
   };
 
   const clearAll = () => {
-    setVoxels([]);
-    setBlueprint({
-      top: Array(GRID_SIZE).fill(Array(GRID_SIZE).fill(false)),
-      front: Array(GRID_SIZE).fill(Array(GRID_SIZE).fill(false)),
-      side: Array(GRID_SIZE).fill(Array(GRID_SIZE).fill(false))
-    });
+    setEditor((prev) => ({
+      ...prev,
+      voxels: [],
+      blueprint: createEmptyGridState(prev.dimensions),
+      heights: createEmptyHeightMap(prev.dimensions)
+    }));
+  };
+
+  // Resizing crops voxels that no longer fit; undoing restores them
+  const handleDimensionsChange = (next: GridDimensions) => {
+    setEditor((prev) => ({
+      voxels: cropVoxelsToDimensions(prev.voxels, next),
+      blueprint: resizeGridState(prev.blueprint, prev.dimensions, next),
+      heights: resizeHeightMap(prev.heights, prev.dimensions, next),
+      dimensions: next
+    }));
   };
 
-  // Sync blueprint with current 3D state when entering 2D mode
+  // Sync blueprint with current 3D state when entering 2D mode.
+  // This mirrors existing voxels, so it does not create an undo step.
   useEffect(() => {
     if (mode === '2d-blueprint') {
-      setBlueprint(currentProjections);
+      setEditor(
+        (prev) => ({
+          ...prev,
+          blueprint: currentProjections,
+          heights: heightsFromVoxels(prev.voxels, prev.dimensions)
+        }),
+        { record: false }
+      );
     }
   }, [mode]);
 
+  // Autosave editor state (debounced)
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      saveAutosave({
+        voxels,
+        blueprint,
+        heights,
+        dimensions,
+        selectedColor,
+        views
+      });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [voxels, blueprint, heights, dimensions, selectedColor, views]);
+
+  // Keyboard shortcuts: Ctrl+Z (undo), Ctrl+Shift+Z / Ctrl+Y (redo)
+  useEffect(() => {
+    if (isQuizMode) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === 'INPUT' ||
+          target.tagName === 'TEXTAREA' ||
+          target.isContentEditable)
+      )
+        return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isQuizMode, undo, redo]);
+
   // Check for quiz mode on initial load (URL parameter)
   useEffect(() => {
+    const setParam = parseQuizSetFromUrl();
+    if (setParam) {
+      const items = decodeQuizSet(setParam);
+      if (items) {
+        startQuizSet(items);
+        return;
+      }
+    }
+
     const puzzleParam = parseQuizFromUrl();
     if (puzzleParam) {
-      const decodedVoxels = decodeVoxels(puzzleParam);
-      if (decodedVoxels && decodedVoxels.length > 0) {
-        setQuizVoxels(decodedVoxels);
+      const puzzle = decodePuzzle(puzzleParam);
+      if (puzzle && puzzle.voxels.length > 0) {
+        setQuizVoxels(puzzle.voxels);
+        // Older JSON links carry the grid size in a separate parameter
+        setQuizDimensions(puzzle.dimensions ?? parseDimensionsFromUrl());
+        setQuizOptions(parseShareOptionsFromUrl());
         setIsQuizMode(true);
         setQuizState('playing');
         // Parse timer from URL
@@ -160,10 +569,19 @@ const App: React.FC = () => {
   }, []);
 
   // Quiz Handlers
-  const handleQuizSubmit = (answer: number) => {
+  const quizQuestion = QUESTION_TYPES[quizOptions.questionType];
+  const checkQuizAnswer = (answer: QuizAnswer): boolean =>
+    quizQuestion.isCorrect(answer, quizVoxels, quizDimensions, quizOptions);
+  const isAnswerCorrect = checkQuizAnswer(userAnswer);
+  const correctAnswerText = quizQuestion.formatCorrect(quizVoxels, quizDimensions, quizOptions);
+  const userAnswerText = quizQuestion.formatAnswer(userAnswer, quizVoxels, quizDimensions, quizOptions);
+
+  const handleQuizSubmit = (answer: QuizAnswer, elapsedSeconds: number, hintsUsed: number) => {
     setUserAnswer(answer);
-    const correctAnswer = quizVoxels.length;
-    const isCorrect = answer === correctAnswer;
+    setQuizElapsed(elapsedSeconds);
+    setQuizHintsUsed(hintsUsed);
+    setQuizCompletedAt(Date.now());
+    const isCorrect = checkQuizAnswer(answer);
     setQuizState(isCorrect ? 'correct' : 'incorrect');
     setShowResultModal(true);
   };
@@ -175,26 +593,130 @@ const App: React.FC = () => {
 
   const handleExitQuizMode = () => {
     setIsQuizMode(false);
+    setQuizSet(null);
+    setQuizSetResults([]);
     setQuizVoxels([]);
     setQuizState('playing');
-    setUserAnswer(0);
+    setQuizOptions(DEFAULT_QUIZ_OPTIONS);
+    setUserAnswer(null);
     clearQuizFromUrl();
   };
 
+  const openShareModal = (
+    shareVoxels: Voxel[],
+    shareDimensions: GridDimensions
+  ) => {
+    const url = generateQuizUrl(shareVoxels, shareDimensions);
+    setBaseShareUrl(url);
+    // Check whether the views determine the block count before sharing
+    setShareAnalysis(
+      solveProjections(
+        project3DTo2D(shareVoxels, shareDimensions),
+        shareDimensions
+      )
+    );
+    setShowShareModal(true);
+  };
+
   const handleShare = () => {
     if (voxels.length === 0) {
       alert('블록을 먼저 쌓아주세요!');
       return;
     }
-    const url = generateQuizUrl(voxels);
-    setBaseShareUrl(url);
-    setShowShareModal(true);
+    openShareModal(voxels, dimensions);
   };
 
   const handleShareFromResult = () => {
-    const url = generateQuizUrl(quizVoxels);
-    setBaseShareUrl(url);
-    setShowShareModal(true);
+    openShareModal(quizVoxels, quizDimensions);
+  };
+
+  // Library Handlers
+  const handleOpenStructure = (item: SavedStructure) => {
+    setEditor({
+      voxels: item.voxels,
+      blueprint: project3DTo2D(item.voxels, item.dimensions),
+      heights: heightsFromVoxels(item.voxels, item.dimensions),
+      dimensions: item.dimensions
+    });
+    setMode('3d-edit');
+    setShowLibraryModal(false);
+  };
+
+  // Imported models replace the editor contents as one undo step
+  const handleImport = (importedVoxels: Voxel[], importedDimensions: GridDimensions) => {
+    setEditor({
+      voxels: importedVoxels,
+      blueprint: project3DTo2D(importedVoxels, importedDimensions),
+      heights: heightsFromVoxels(importedVoxels, importedDimensions),
+      dimensions: importedDimensions
+    });
+    setMode('3d-edit');
+    setShowImportModal(false);
+  };
+
+  const handleShareStructure = (item: SavedStructure) => {
+    setShowLibraryModal(false);
+    openShareModal(item.voxels, item.dimensions);
+  };
+
+  const startQuiz = (quizSource: Voxel[], quizSize: GridDimensions, options: QuizShareOptions) => {
+    setQuizVoxels([...quizSource]);
+    setQuizDimensions(quizSize);
+    setQuizOptions(options);
+    setIsQuizMode(true);
+    setQuizState('playing');
+    setQuizTimer(0);
+    setUserAnswer(null);
+  };
+
+  // Quiz Set Handlers
+  const startQuizSet = (items: QuizSetItem[]) => {
+    setQuizSet(items);
+    setQuizSetResults([]);
+    setIsQuizMode(true);
+    setQuizState('playing');
+  };
+
+  const handleQuizSetSubmit = (answer: QuizAnswer, elapsedSeconds: number, hintsUsed: number) => {
+    if (!quizSet) return;
+    const item = quizSet[quizSetResults.length];
+    const isCorrect = QUESTION_TYPES[item.options.questionType]
+      .isCorrect(answer, item.voxels, item.dimensions, item.options);
+    setQuizSetResults(prev => [...prev, { answer, isCorrect, elapsedSeconds, hintsUsed }]);
+    if (quizSetResults.length + 1 === quizSet.length) setQuizCompletedAt(Date.now());
+  };
+
+  // Everything in the student's result code except their name
+  const resultRecord: Omit<ResultRecord, 'name'> = useMemo(() => {
+    if (quizSet) {
+      return {
+        puzzleId: getPuzzleId(encodeQuizSet(quizSet)),
+        questionType: 'set',
+        questionCount: quizSet.length,
+        correctCount: quizSetResults.filter(r => r.isCorrect).length,
+        answer: `${quizSetResults.filter(r => r.isCorrect).length}/${quizSet.length}`,
+        elapsedSeconds: quizSetResults.reduce((sum, r) => sum + r.elapsedSeconds, 0),
+        completedAt: quizCompletedAt,
+        hintsUsed: quizSetResults.reduce((sum, r) => sum + r.hintsUsed, 0),
+        score: getQuizSetScore(quizSetResults)
+      };
+    }
+    return {
+      puzzleId: getPuzzleId(`${encodeVoxels(quizVoxels, quizDimensions)}:${quizOptions.questionType}`),
+      questionType: quizOptions.questionType,
+      questionCount: 1,
+      correctCount: isAnswerCorrect ? 1 : 0,
+      answer: userAnswerText,
+      elapsedSeconds: quizElapsed,
+      completedAt: quizCompletedAt,
+      hintsUsed: quizHintsUsed,
+      score: getHintScore(isAnswerCorrect, quizHintsUsed)
+    };
+  }, [quizSet, quizSetResults, quizVoxels, quizDimensions, quizOptions, isAnswerCorrect, userAnswerText, quizElapsed, quizCompletedAt, quizHintsUsed]);
+
+  const handlePlayQuizSet = (items: QuizSetItem[]) => {
+    setShowQuizSetModal(false);
+    startQuizSet(items);
   };
 
   const handleStartQuiz = () => {
@@ -202,48 +724,55 @@ const App: React.FC = () => {
       alert('블록을 먼저 쌓아주세요!');
       return;
     }
-    setQuizVoxels([...voxels]);
-    setIsQuizMode(true);
-    setQuizState('playing');
-    setQuizTimer(0);
-    setUserAnswer(0);
+    startQuiz(voxels, dimensions, DEFAULT_QUIZ_OPTIONS);
+  };
+
+  // Generator Handlers
+  const handleStartGeneratedQuiz = (puzzle: GeneratedPuzzle) => {
+    setShowGeneratorModal(false);
+    startQuiz(puzzle.voxels, puzzle.dimensions, {
+      ...DEFAULT_QUIZ_OPTIONS,
+      showNumbers: DIFFICULTY_PRESETS[puzzle.difficulty].showNumbers
+    });
+  };
+
+  const handleOpenGeneratedPuzzle = (puzzle: GeneratedPuzzle) => {
+    setEditor({
+      voxels: puzzle.voxels,
+      blueprint: project3DTo2D(puzzle.voxels, puzzle.dimensions),
+      heights: heightsFromVoxels(puzzle.voxels, puzzle.dimensions),
+      dimensions: puzzle.dimensions
+    });
+    setMode('3d-edit');
+    setShowGeneratorModal(false);
   };
 
   // --- Render Helpers ---
 
   const getInstructionText = (): string => {
     if (mode === '3d-edit') {
-      return tool === 'build'
-        ? '클릭하여 도형을 쌓습니다.\n• 드래그하여 회전합니다.'
-        : '블록을 클릭하여 제거합니다.\n• 드래그하여 회전합니다.';
+      const toolText: Record<EditorTool, string> = {
+        build: '클릭하여 도형을 쌓습니다.',
+        erase: '블록을 클릭하여 제거합니다.',
+        box: '바닥이나 면 위를 드래그하여 상자 모양으로 채웁니다.',
+        line: bulkStart ? '끝 칸을 클릭하면 한 줄로 쌓입니다.' : '줄의 시작 칸을 클릭합니다.',
+        column: `칸을 클릭하면 ${bulkHeight}층 높이의 기둥이 됩니다.`,
+        extrude: faceSelection ? 'Out / In 버튼으로 고른 면을 밀거나 당깁니다.' : '밀어낼 면을 클릭합니다.'
+      };
+      const text = tool === 'box'
+        ? `${toolText.box}\n• 빈 곳을 드래그하여 회전합니다.`
+        : `${toolText[tool]}\n• 드래그하여 회전합니다.`;
+      return isSlicing ? `${text}\n• ${sliceLayer + 1}층만 편집할 수 있어요.` : text;
     }
     return '오른쪽 그리드를 편집하여 도형을 만듭니다.';
   };
 
-  // Prepare Side View Data (Handle Flipping for Left View)
-  const rawSideData =
-    mode === '3d-edit' ? currentProjections.side : blueprint.side;
-
-  // If viewing from Left, we horizontally flip the grid (reverse columns)
-  // Standard Right View: Z axis 0 -> MAX
-  // Left View: Z axis MAX -> 0 (Mirrored)
-  const displaySideData =
-    sideViewDirection === 'left'
-      ? rawSideData.map((row) => [...row].reverse())
-      : rawSideData;
-
-  const displaySideNumbers =
-    sideViewDirection === 'left' && mode === '3d-edit'
-      ? sideViewNumbers.map((row) => [...row].reverse())
-      : sideViewNumbers;
-
-  const handleSideToggle = (r: number, c: number) => {
-    // If we are in Left View, the clicked column 'c' corresponds to 'GRID_SIZE - 1 - c' in the data
-    const actualCol = sideViewDirection === 'left' ? GRID_SIZE - 1 - c : c;
-    handleBlueprintToggle('side', r, actualCol);
+  // Toggles the blueprint cell behind a cell of any view
+  const handleViewToggle = (direction: ViewDirection, r: number, c: number) => {
+    const cell = getBlueprintCell(direction, r, c, dimensions);
+    handleBlueprintToggle(cell.view, cell.row, cell.col);
   };
 
-
   return (
    <div className="flex h-screen w-screen flex-col overflow-hidden bg-sky-50">
       {/* Header */}
@@ -270,6 +799,61 @@ const App: React.FC = () => {
           )}
           {!isQuizMode && (
             <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setShowLibraryModal(true)}
+                className="flex items-center gap-2 rounded-lg border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+                title="내 구조물 보관함"
+              >
+                <Library size={16} />
+                <span className="hidden sm:inline">내 구조물</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowImportModal(true)}
+                className="flex items-center gap-2 rounded-lg border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+                title=".vox / CSV 파일 가져오기"
+              >
+                <Upload size={16} />
+                <span className="hidden sm:inline">가져오기</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowExportModal(true)}
+                disabled={voxels.length === 0}
+                className="flex items-center gap-2 rounded-lg border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-40"
+                title="STL / OBJ / glTF로 내보내기"
+              >
+                <Download size={16} />
+                <span className="hidden sm:inline">내보내기</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowGeneratorModal(true)}
+                className="flex items-center gap-2 rounded-lg border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+                title="난이도별 문제 자동 만들기"
+              >
+                <Dices size={16} />
+                <span className="hidden sm:inline">자동 출제</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowWorksheetModal(true)}
+                className="flex items-center gap-2 rounded-lg border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+                title="인쇄용 학습지 만들기"
+              >
+                <Printer size={16} />
+                <span className="hidden sm:inline">학습지</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowResultsCollector(true)}
+                className="flex items-center gap-2 rounded-lg border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+                title="학생 결과 코드 모으기"
+              >
+                <ClipboardList size={16} />
+                <span className="hidden sm:inline">결과 수집</span>
+              </button>
               <button
                 type="button"
                 onClick={handleStartQuiz}
@@ -296,23 +880,60 @@ const App: React.FC = () => {
       {/* Main Content */}
       <main className="relative flex flex-1 flex-col overflow-hidden md:flex-row">
         {/* Quiz Mode: Playing */}
-        {isQuizMode && quizState === 'playing' && (
+        {isQuizMode && quizSet && quizSetResults.length < quizSet.length && (
+          <QuizMode
+            key={quizSetResults.length}
+            voxels={quizSet[quizSetResults.length].voxels}
+            dimensions={quizSet[quizSetResults.length].dimensions}
+            onSubmit={handleQuizSetSubmit}
+            timeLimit={quizSet[quizSetResults.length].timeLimit}
+            showNumbers={quizSet[quizSetResults.length].options.showNumbers}
+            views={quizSet[quizSetResults.length].options.views}
+            colorViews={quizSet[quizSetResults.length].options.colorViews}
+            questionType={quizSet[quizSetResults.length].options.questionType}
+            progress={{ current: quizSetResults.length + 1, total: quizSet.length }}
+          />
+        )}
+
+        {isQuizMode && quizSet && quizSetResults.length >= quizSet.length && (
+          <QuizSetSummary
+            items={quizSet}
+            results={quizSetResults}
+            onRetry={() => setQuizSetResults([])}
+            onExit={handleExitQuizMode}
+            onShowResultCode={() => setShowResultCodeModal(true)}
+          />
+        )}
+
+        {isQuizMode && !quizSet && quizState === 'playing' && (
           <QuizMode
             voxels={quizVoxels}
+            dimensions={quizDimensions}
             onSubmit={handleQuizSubmit}
             timeLimit={quizTimer}
+            showNumbers={quizOptions.showNumbers}
+            views={quizOptions.views}
+            colorViews={quizOptions.colorViews}
+            questionType={quizOptions.questionType}
           />
         )}
 
         {/* Quiz Mode: Revealed (Result Screen) */}
-        {isQuizMode && quizState === 'revealed' && (
+        {isQuizMode && !quizSet && quizState === 'revealed' && (
           <QuizResult
             voxels={quizVoxels}
-            correctAnswer={quizVoxels.length}
-            userAnswer={userAnswer}
-            isCorrect={userAnswer === quizVoxels.length}
+            dimensions={quizDimensions}
+            questionType={quizOptions.questionType}
+            views={quizOptions.views}
+            colorViews={quizOptions.colorViews}
+            correctText={correctAnswerText}
+            userText={userAnswerText}
+            isCorrect={isAnswerCorrect}
+            hintsUsed={quizHintsUsed}
+            score={getHintScore(isAnswerCorrect, quizHintsUsed)}
             onNewQuiz={handleExitQuizMode}
             onShare={handleShareFromResult}
+            onShowResultCode={() => setShowResultCodeModal(true)}
           />
         )}
 
@@ -325,6 +946,12 @@ const App: React.FC = () => {
                 <ToolsPanel
                   tool={tool}
                   setTool={setTool}
+                  bulkHeight={bulkHeight}
+                  setBulkHeight={setBulkHeight}
+                  onExtrude={handleExtrude}
+                  canExtrude={faceSelection !== null}
+                  onTransform={handleTransform}
+                  canTransform={canTransform}
                   onClear={clearAll}
                   mode={mode}
                   setMode={setMode}
@@ -332,9 +959,24 @@ const App: React.FC = () => {
                   setShowXRay={setShowXRay}
                   showNumbers={showNumbers}
                   setShowNumbers={setShowNumbers}
+                  showColors={showColors}
+                  setShowColors={setShowColors}
+                  physicalMode={physicalMode}
+                  setPhysicalMode={setPhysicalMode}
                   selectedColor={selectedColor}
                   setSelectedColor={setSelectedColor}
                   onGenerate={generateFromBlueprint}
+                  blueprintKind={blueprintKind}
+                  setBlueprintKind={setBlueprintKind}
+                  blueprintFill={blueprintFill}
+                  setBlueprintFill={setBlueprintFill}
+                  blueprintRange={blueprintRange}
+                  dimensions={dimensions}
+                  setDimensions={handleDimensionsChange}
+                  onUndo={undo}
+                  onRedo={redo}
+                  canUndo={canUndo}
+                  canRedo={canRedo}
                 />
               </div>
             </div>
@@ -344,18 +986,39 @@ const App: React.FC = () => {
               <div className="absolute inset-0">
                 <CubeStage
                   voxels={
-                    mode === '3d-edit' ? voxels : intersect2DTo3D(blueprint)
+                    mode === '3d-edit'
+                      ? voxels
+                      : blueprintPreview
                   }
+                  dimensions={dimensions}
                   mode={mode}
                   onAddVoxel={onStageInteractAdd}
-                  onRemoveVoxel={(id) => {
-                    if (tool === 'erase') handleRemoveVoxel(id);
-                  }}
+                  onRemoveVoxel={onStageInteractRemove}
                   showXRay={showXRay}
                   selectedColor={selectedColor}
+                  highlightIds={mode === '3d-edit' ? unsupportedIds : undefined}
+                  layerMode={isSlicing ? layerMode : 'all'}
+                  activeLayer={sliceLayer}
+                  onPick={mode === '3d-edit' && isBulkTool ? handleStagePick : undefined}
+                  dragPick={tool === 'box'}
+                  previewCells={bulkPreview}
+                  selectedFaces={faceSelection}
+                  transition={mode === '3d-edit' ? transition : null}
                 />
               </div>
 
+              {/* Unsupported Blocks Warning */}
+              {mode === '3d-edit' && unsupportedVoxels.length > 0 && (
+                <div className="pointer-events-none absolute right-4 top-4 flex max-w-[260px] items-start gap-2 rounded-lg border border-red-200 bg-white/90 px-3 py-2 text-xs text-red-700 shadow-sm backdrop-blur">
+                  <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                  <span>
+                    받침이 없는 블록 {unsupportedVoxels.length}개 (빨간색)
+                    <br />
+                    실제 쌓기나무로는 만들 수 없어요.
+                  </span>
+                </div>
+              )}
+
               {/* Instructions Overlay */}
               <div className="pointer-events-none absolute bottom-6 left-1/2 -translate-x-1/2 select-none rounded-full bg-white/80 px-4 py-2 text-sm font-medium text-gray-600 shadow-sm backdrop-blur">
                 {getInstructionText()}
@@ -393,79 +1056,72 @@ const App: React.FC = () => {
 
               {/* 2D Projections */}
               <div className="flex-1 space-y-4 overflow-y-auto p-4">
+                {mode === '3d-edit' && (
+                  <>
+                    <LayerPanel
+                      counts={layerCounts}
+                      layerMode={layerMode}
+                      setLayerMode={setLayerMode}
+                      activeLayer={sliceLayer}
+                      setActiveLayer={setActiveLayer}
+                    />
+                    {isSlicing && (
+                      <LayerMap
+                        label={`${sliceLayer + 1}층 지도`}
+                        voxels={voxels}
+                        dimensions={dimensions}
+                        layer={sliceLayer}
+                        onToggle={handleLayerCellToggle}
+                      />
+                    )}
+                  </>
+                )}
+
                 <div className="mb-2 text-xs font-semibold uppercase tracking-wider text-gray-400">
                   {mode === '3d-edit' ? '실시간 투영' : '블루프린트 편집기'}
                 </div>
 
-                <Grid2D
-                  label="Top View (Above)"
-                  data={
-                    mode === '3d-edit' ? currentProjections.top : blueprint.top
-                  }
-                  editable={mode === '2d-blueprint'}
-                  onToggle={(r, c) => handleBlueprintToggle('top', r, c)}
-                  numbers={
-                    mode === '3d-edit' && showNumbers
-                      ? topViewNumbers
-                      : undefined
-                  }
-                  xAxisLabel="X (Right)"
-                  yAxisLabel="Z (Depth)"
-                />
+                <ViewPicker views={views} onChange={setViews} compact />
 
-                <Grid2D
-                  label="Front View"
-                  data={
-                    mode === '3d-edit'
-                      ? currentProjections.front
-                      : blueprint.front
-                  }
-                  editable={mode === '2d-blueprint'}
-                  onToggle={(r, c) => handleBlueprintToggle('front', r, c)}
-                  numbers={
-                    mode === '3d-edit' && showNumbers
-                      ? frontViewNumbers
-                      : undefined
-                  }
-                  xAxisLabel="X (Right)"
-                  yAxisLabel="Y (Up)"
-                />
+                {isHeightMapMode && (
+                  <HeightMapGrid
+                    label="Top View (Heights)"
+                    heights={heights}
+                    maxHeight={dimensions.height}
+                    onChange={handleHeightChange}
+                    xAxisLabel={VIEWS.top.xAxisLabel}
+                    yAxisLabel={VIEWS.top.yAxisLabel}
+                  />
+                )}
 
-                <Grid2D
-                  label={`Side View (${sideViewDirection === 'right' ? 'Right' : 'Left'})`}
-                  data={displaySideData}
-                  editable={mode === '2d-blueprint'}
-                  onToggle={handleSideToggle}
-                  numbers={
-                    mode === '3d-edit' && showNumbers
-                      ? displaySideNumbers
-                      : undefined
-                  }
-                  xAxisLabel={
-                    sideViewDirection === 'right' ? 'Z (Depth)' : 'Z (Reversed)'
-                  }
-                  yAxisLabel="Y (Up)"
-                  headerAction={
-                    <button
-                      type="button"
-                      onClick={() =>
-                        setSideViewDirection((prev) =>
-                          prev === 'right' ? 'left' : 'right'
-                        )
-                      }
-                      className="rounded p-1 text-indigo-600 transition-colors hover:bg-gray-100"
-                      title="Switch Side View (Right/Left)"
-                    >
-                      <ArrowLeftRight size={14} />
-                    </button>
-                  }
-                />
+                {viewGrids
+                  .filter((grid) => !(isHeightMapMode && grid.direction === 'top'))
+                  .map(({ direction, data, numbers, colors, highlights }) => (
+                    <Grid2D
+                      key={direction}
+                      label={VIEWS[direction].label}
+                      data={data}
+                      editable={blueprintEditable}
+                      onToggle={(r, c) => handleViewToggle(direction, r, c)}
+                      highlights={highlights}
+                      numbers={numbers}
+                      colors={colors}
+                      xAxisLabel={VIEWS[direction].xAxisLabel}
+                      yAxisLabel={VIEWS[direction].yAxisLabel}
+                    />
+                  ))}
 
                 {mode === '2d-blueprint' && (
                   <p className="mt-2 text-center text-xs italic text-gray-400">
-                    셀을 토글하여 도형의 그림자를 정의합니다.
+                    {isHeightMapMode
+                      ? '칸을 눌러 높이를 정합니다. 앞과 옆 모습은 자동으로 그려집니다.'
+                      : '셀을 토글하여 도형의 그림자를 정의합니다.'}
                   </p>
                 )}
+
+                {blueprintAnalysis && (
+                  <BlueprintCheck analysis={blueprintAnalysis} />
+                )}
               </div>
             </div>
 
@@ -485,76 +1141,69 @@ const App: React.FC = () => {
                   <span className="text-xs text-gray-500">
                     {mode === '3d-edit' ? '투영' : '설계도'}
                   </span>
-                  <button
-                    type="button"
-                    onClick={() =>
-                      setSideViewDirection((prev) =>
-                        prev === 'right' ? 'left' : 'right'
-                      )
-                    }
-                    className="rounded p-1 text-indigo-600 transition-colors hover:bg-indigo-100"
-                    title="Switch Side View"
-                  >
-                    <ArrowLeftRight size={14} />
-                  </button>
+                  <ViewPicker views={views} onChange={setViews} compact />
                 </div>
               </div>
 
               {/* Horizontal Scrolling Views */}
               <div className="overflow-x-auto">
                 <div className="flex min-w-max gap-3 p-3">
-                  <div className="shrink-0">
-                    <Grid2D
-                      label="Top (위)"
-                      data={
-                        mode === '3d-edit'
-                          ? currentProjections.top
-                          : blueprint.top
-                      }
-                      editable={mode === '2d-blueprint'}
-                      onToggle={(r, c) => handleBlueprintToggle('top', r, c)}
-                      numbers={
-                        mode === '3d-edit' && showNumbers
-                          ? topViewNumbers
-                          : undefined
-                      }
-                    />
-                  </div>
+                  {mode === '3d-edit' && (
+                    <div className="w-56 shrink-0">
+                      <LayerPanel
+                        counts={layerCounts}
+                        layerMode={layerMode}
+                        setLayerMode={setLayerMode}
+                        activeLayer={sliceLayer}
+                        setActiveLayer={setActiveLayer}
+                      />
+                    </div>
+                  )}
 
-                  <div className="shrink-0">
-                    <Grid2D
-                      label="Front (앞)"
-                      data={
-                        mode === '3d-edit'
-                          ? currentProjections.front
-                          : blueprint.front
-                      }
-                      editable={mode === '2d-blueprint'}
-                      onToggle={(r, c) => handleBlueprintToggle('front', r, c)}
-                      numbers={
-                        mode === '3d-edit' && showNumbers
-                          ? frontViewNumbers
-                          : undefined
-                      }
-                    />
-                  </div>
+                  {isSlicing && (
+                    <div className="shrink-0">
+                      <LayerMap
+                        label={`${sliceLayer + 1}층`}
+                        voxels={voxels}
+                        dimensions={dimensions}
+                        layer={sliceLayer}
+                        onToggle={handleLayerCellToggle}
+                      />
+                    </div>
+                  )}
 
-                  <div className="shrink-0">
-                    <Grid2D
-                      label={`Side (${sideViewDirection === 'right' ? '오른쪽' : '왼쪽'})`}
-                      data={displaySideData}
-                      editable={mode === '2d-blueprint'}
-                      onToggle={handleSideToggle}
-                      numbers={
-                        mode === '3d-edit' && showNumbers
-                          ? displaySideNumbers
-                          : undefined
-                      }
-                    />
-                  </div>
+                  {isHeightMapMode && (
+                    <div className="shrink-0">
+                      <HeightMapGrid
+                        label="위 (높이)"
+                        heights={heights}
+                        maxHeight={dimensions.height}
+                        onChange={handleHeightChange}
+                      />
+                    </div>
+                  )}
+
+                  {viewGrids
+                    .filter((grid) => !(isHeightMapMode && grid.direction === 'top'))
+                    .map(({ direction, data, numbers, colors, highlights }) => (
+                      <div key={direction} className="shrink-0">
+                        <Grid2D
+                          label={VIEWS[direction].short}
+                          data={data}
+                          editable={blueprintEditable}
+                          onToggle={(r, c) => handleViewToggle(direction, r, c)}
+                          highlights={highlights}
+                          numbers={numbers}
+                          colors={colors}
+                        />
+                      </div>
+                    ))}
 
                   {mode === '2d-blueprint' && (
-                    <div className="flex shrink-0 items-center px-4">
+                    <div className="flex shrink-0 flex-col items-center justify-center gap-2 px-4">
+                      {blueprintAnalysis && (
+                        <BlueprintCheck analysis={blueprintAnalysis} compact />
+                      )}
                       <button
                         type="button"
                         onClick={generateFromBlueprint}
@@ -574,9 +1223,10 @@ const App: React.FC = () => {
         {/* Result Modal (for quiz answer) */}
         <ResultModal
           isOpen={showResultModal}
-          isCorrect={userAnswer === quizVoxels.length}
-          correctAnswer={quizVoxels.length}
-          userAnswer={userAnswer}
+          isCorrect={isAnswerCorrect}
+          correctText={correctAnswerText}
+          userText={userAnswerText}
+          rangeAccepted={!!quizOptions.acceptRange}
           onReveal={handleRevealResult}
           onClose={() => setShowResultModal(false)}
         />
@@ -586,6 +1236,82 @@ const App: React.FC = () => {
           isOpen={showShareModal}
           onClose={() => setShowShareModal(false)}
           baseShareUrl={baseShareUrl}
+          analysis={shareAnalysis}
+        />
+
+        {/* Library Modal */}
+        <LibraryModal
+          isOpen={showLibraryModal}
+          onClose={() => setShowLibraryModal(false)}
+          items={library.items}
+          storageError={library.storageError}
+          canSaveCurrent={voxels.length > 0}
+          sameShapeItem={sameShapeItem}
+          onSaveCurrent={(name) => library.save(name, voxels, dimensions)}
+          onRename={library.rename}
+          onDuplicate={library.duplicate}
+          onDelete={library.remove}
+          onOpen={handleOpenStructure}
+          onShare={handleShareStructure}
+          onCreateSet={() => {
+            setShowLibraryModal(false);
+            setShowQuizSetModal(true);
+          }}
+        />
+
+        {/* Quiz Set Modal */}
+        <QuizSetModal
+          isOpen={showQuizSetModal}
+          onClose={() => setShowQuizSetModal(false)}
+          libraryItems={library.items}
+          currentVoxels={voxels}
+          currentDimensions={dimensions}
+          onPlay={handlePlayQuizSet}
+        />
+
+        {/* Worksheet Modal */}
+        <WorksheetModal
+          isOpen={showWorksheetModal}
+          onClose={() => setShowWorksheetModal(false)}
+          libraryItems={library.items}
+          currentVoxels={voxels}
+          currentDimensions={dimensions}
+        />
+
+        {/* Export Modal */}
+        <ExportModal
+          isOpen={showExportModal}
+          onClose={() => setShowExportModal(false)}
+          voxels={voxels}
+        />
+
+        {/* Import Modal */}
+        <ImportModal
+          isOpen={showImportModal}
+          onClose={() => setShowImportModal(false)}
+          dimensions={dimensions}
+          onImport={handleImport}
+        />
+
+        {/* Generator Modal */}
+        <GeneratorModal
+          isOpen={showGeneratorModal}
+          onClose={() => setShowGeneratorModal(false)}
+          onStartQuiz={handleStartGeneratedQuiz}
+          onOpenInEditor={handleOpenGeneratedPuzzle}
+        />
+
+        {/* Result Code Modal */}
+        <ResultCodeModal
+          isOpen={showResultCodeModal}
+          onClose={() => setShowResultCodeModal(false)}
+          record={resultRecord}
+        />
+
+        {/* Results Collector Modal */}
+        <ResultsCollectorModal
+          isOpen={showResultsCollector}
+          onClose={() => setShowResultsCollector(false)}
         />
       </main>
     </div>
@@ -0,0 +1,89 @@
+import React from 'react';
+import { CheckCircle, AlertTriangle } from 'lucide-react';
+import { BlueprintAnalysis, BlueprintLineIssue, BlueprintView } from '../utils/voxelEngine';
+
+interface BlueprintCheckProps {
+  analysis: BlueprintAnalysis;
+  compact?: boolean; // One-line summary for the mobile panel
+}
+
+const VIEW_NAMES: Record<BlueprintView, string> = {
+  top: '위',
+  front: '앞',
+  side: '옆'
+};
+
+const LINE_NAMES: Record<BlueprintLineIssue['axis'], string> = {
+  x: '세로줄',
+  z: '가로줄',
+  y: '층'
+};
+
+// "앞 모습에는 칠했지만 위 모습에는 없는 세로줄 2개" — one sentence per view pair
+const describeLineIssues = (issues: BlueprintLineIssue[]): string[] => {
+  const groups = new Map<string, { issue: BlueprintLineIssue; count: number }>();
+  issues.forEach(issue => {
+    const key = `${issue.axis}:${issue.shadedIn}:${issue.emptyIn}`;
+    const group = groups.get(key);
+    if (group) group.count++;
+    else groups.set(key, { issue, count: 1 });
+  });
+  return [...groups.values()].map(({ issue, count }) =>
+    `${VIEW_NAMES[issue.shadedIn]} 모습에는 칠했지만 ${VIEW_NAMES[issue.emptyIn]} 모습에는 없는 ${LINE_NAMES[issue.axis]} ${count}개`
+  );
+};
+
+export const BlueprintCheck: React.FC<BlueprintCheckProps> = ({ analysis, compact = false }) => {
+  const { impossibleCounts } = analysis;
+  const impossibleTotal = impossibleCounts.top + impossibleCounts.front + impossibleCounts.side;
+
+  if (analysis.consistent) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-xs text-emerald-700">
+        <CheckCircle size={14} className="shrink-0" />
+        세 모습이 서로 맞아요. 그린 그대로 만들어집니다.
+      </div>
+    );
+  }
+
+  if (compact) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-red-600">
+        <AlertTriangle size={14} className="shrink-0" />
+        만들 수 없는 칸 {impossibleTotal}개 (빨간 칸)
+      </div>
+    );
+  }
+
+  const impossibleParts = (Object.keys(VIEW_NAMES) as BlueprintView[])
+    .filter(view => impossibleCounts[view] > 0)
+    .map(view => `${VIEW_NAMES[view]} ${impossibleCounts[view]}칸`);
+
+  return (
+    <div className="space-y-2 rounded-lg border border-red-200 bg-red-50 p-3 text-xs text-red-800">
+      <div className="flex items-center gap-2 font-semibold">
+        <AlertTriangle size={14} className="shrink-0" />
+        세 모습이 서로 맞지 않아요
+      </div>
+      <ul className="list-disc space-y-1 pl-5">
+        {describeLineIssues(analysis.lineIssues).map(text => (
+          <li key={text}>{text}</li>
+        ))}
+        <li>
+          어떤 블록으로도 만들 수 없는 칸: {impossibleParts.join(', ')}
+        </li>
+      </ul>
+      <div className="flex flex-wrap gap-3 text-[11px] text-gray-600">
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded-sm bg-red-400 ring-2 ring-inset ring-red-600" /> 만들 수 없는 칸
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded-sm bg-amber-100 ring-1 ring-inset ring-amber-400" /> 칠해야 하는 줄
+        </span>
+      </div>
+      <p className="text-red-600">
+        이대로 만들면 빨간 칸은 빠진 채로 3D 모양이 만들어져요.
+      </p>
+    </div>
+  );
+};
@@ -1,8 +1,11 @@
-import React, { useState } from 'react';
-import { Canvas, ThreeEvent } from '@react-three/fiber';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, ThreeEvent, useFrame } from '@react-three/fiber';
 import { OrbitControls, Grid, Edges } from '@react-three/drei';
-import { Voxel, ViewMode } from '../types';
-import { GRID_SIZE, COLORS } from '../constants';
+import * as THREE from 'three';
+import { Voxel, ViewMode, GridDimensions, LayerMode, Vector3 } from '../types';
+import { COLORS } from '../constants';
+import { isLayerVisible } from '../utils/layers';
+import { Cell, FaceSelection } from '../utils/bulkTools';
 
 // Augment JSX.IntrinsicElements to include React Three Fiber elements
 declare global {
@@ -65,44 +68,115 @@ class ErrorBoundary extends React.Component<{children: React.ReactNode, fallback
 
 interface CubeStageProps {
   voxels: Voxel[];
+  dimensions: GridDimensions;
   mode: ViewMode;
   onAddVoxel: (x: number, y: number, z: number) => void;
   onRemoveVoxel: (id: string) => void;
   showXRay: boolean;
   selectedColor: string;
+  highlightIds?: Set<string>; // Voxels to flag (e.g. unsupported blocks)
+  layerMode?: LayerMode;
+  activeLayer?: number; // Layer (y) that is sliced to and edited
+  // Bulk tools: clicks (or drags) report picked cells instead of adding/removing blocks
+  onPick?: (pick: StagePick, phase: 'start' | 'move' | 'end') => void;
+  dragPick?: boolean; // Pick by dragging (start/move/end) rather than clicking
+  previewCells?: Cell[]; // Ghost blocks for the pending bulk edit
+  selectedFaces?: FaceSelection | null;
+  transition?: StageTransition | null; // Animates the last whole-structure transform
 }
 
+export interface StageTransition {
+  key: number; // New for every transform, so repeating one replays the motion
+  from: Voxel[]; // Blocks before the transform; the motion starts at their bounding box
+  rotate?: { axis: 'x' | 'y' | 'z'; angle: number }; // Turn applied to the blocks (radians)
+  mirror?: 'x' | 'z'; // Axis the blocks were flipped along
+}
+
+export interface StagePick {
+  cell: Cell; // Empty cell in front of the picked face (or the floor cell)
+  voxel: Voxel | null; // Block that was hit, null for the floor
+  normal: Vector3;
+}
+
+interface PickHandlers {
+  down: (pick: StagePick) => void;
+  move: (pick: StagePick) => void;
+  click: (pick: StagePick) => void;
+}
+
+// World-space offset that centers the board on the origin.
+// Cell (0, 0) sits at (-offsetX, -offsetZ); works for odd and even sizes.
+const getBoardOffset = (dims: GridDimensions) => ({
+  x: (dims.width - 1) / 2,
+  z: (dims.depth - 1) / 2
+});
+
 interface VoxelMeshProps {
   data: Voxel;
+  offset: { x: number; z: number };
   onRemove?: (id: string) => void;
   onAdd?: (x: number, y: number, z: number) => void;
   isGhost?: boolean;
+  isHighlighted?: boolean;
+  isDimmed?: boolean; // Below the active layer while slicing
   showXRay: boolean;
   defaultColor: string;
+  picking?: PickHandlers;
 }
 
 const VoxelMesh: React.FC<VoxelMeshProps> = ({ 
   data, 
+  offset,
   onRemove, 
   onAdd,
   isGhost, 
+  isHighlighted,
+  isDimmed,
   showXRay,
-  defaultColor
+  defaultColor,
+  picking
 }) => {
   const [hovered, setHover] = useState(false);
 
   // Position offset to center cubes on integer coordinates
   const position: [number, number, number] = [
-    data.x - Math.floor(GRID_SIZE / 2),
+    data.x - offset.x,
     data.y + 0.5,
-    data.z - Math.floor(GRID_SIZE / 2)
+    data.z - offset.z
   ];
 
+  const getPick = (e: ThreeEvent<PointerEvent | MouseEvent>): StagePick | null => {
+    if (!e.face) return null;
+    const normal: Vector3 = [
+      Math.round(e.face.normal.x),
+      Math.round(e.face.normal.y),
+      Math.round(e.face.normal.z)
+    ];
+    return {
+      cell: { x: data.x + normal[0], y: data.y + normal[1], z: data.z + normal[2] },
+      voxel: data,
+      normal
+    };
+  };
+
+  const handlePointer = (e: ThreeEvent<PointerEvent>, handler: (pick: StagePick) => void) => {
+    if (isGhost) return;
+    e.stopPropagation();
+    const pick = getPick(e);
+    if (pick) handler(pick);
+  };
+
   const handleClick = (e: ThreeEvent<MouseEvent>) => {
     if (isGhost) return;
     e.stopPropagation();
     if (e.delta > 10) return; // Ignore drag
 
+    if (picking) {
+      const pick = getPick(e);
+      if (pick) picking.click(pick);
+      return;
+    }
+
     // Handle Adding (Stacking) - relies on face normal
     if (onAdd && e.face) {
         const nx = Math.round(e.face.normal.x);
@@ -117,12 +191,14 @@ const VoxelMesh: React.FC<VoxelMeshProps> = ({
     }
   };
 
-  const isTransparent = showXRay || isGhost;
+  const isTransparent = showXRay || isGhost || isDimmed;
 
   return (
     <mesh
       position={position}
       onClick={handleClick}
+      onPointerDown={picking ? (e: ThreeEvent<PointerEvent>) => handlePointer(e, picking.down) : undefined}
+      onPointerMove={picking ? (e: ThreeEvent<PointerEvent>) => handlePointer(e, picking.move) : undefined}
       onPointerOver={(e) => { e.stopPropagation(); setHover(true); }}
       onPointerOut={() => setHover(false)}
       castShadow={!isTransparent}
@@ -133,13 +209,15 @@ const VoxelMesh: React.FC<VoxelMeshProps> = ({
         key={`${isTransparent}`} // Force material recreation when transparency changes
         color={data.color || defaultColor}
         transparent={isTransparent}
-        opacity={isTransparent ? 0.3 : 1}
+        opacity={isDimmed && !showXRay ? 0.5 : isTransparent ? 0.3 : 1}
         depthWrite={!isTransparent} 
         roughness={0.5}
         metalness={0.1}
+        emissive={isHighlighted ? COLORS.warning : '#000000'}
+        emissiveIntensity={isHighlighted ? 0.4 : 0}
       />
       <Edges 
-        color={hovered && !isGhost ? "white" : COLORS.voxelOutline} 
+        color={hovered && !isGhost ? "white" : isHighlighted ? COLORS.warning : COLORS.voxelOutline} 
         threshold={15} 
         linewidth={2} 
         visible={true} 
@@ -150,91 +228,255 @@ const VoxelMesh: React.FC<VoxelMeshProps> = ({
 
 interface VoxelListProps {
   voxels: Voxel[];
+  dimensions: GridDimensions;
   mode: ViewMode;
   onAddVoxel: (x: number, y: number, z: number) => void;
   onRemoveVoxel: (id: string) => void;
   showXRay: boolean;
   selectedColor: string;
+  highlightIds?: Set<string>;
+  layerMode?: LayerMode;
+  activeLayer?: number;
+  picking?: PickHandlers;
+  transition?: StageTransition | null;
 }
 
+const TRANSITION_MS = 400;
+const IDENTITY = new THREE.Matrix4();
+
+// Bounding-box center in VoxelLayer coordinates
+const getCenter = (voxels: Voxel[], offset: { x: number; z: number }): THREE.Vector3 => {
+  const axis = (pick: (v: Voxel) => number) => {
+    const values = voxels.map(pick);
+    return (Math.min(...values) + Math.max(...values)) / 2;
+  };
+  return new THREE.Vector3(axis(v => v.x) - offset.x, axis(v => v.y) + 0.5, axis(v => v.z) - offset.z);
+};
+
+/*
+ * Plays a transform backwards-to-forwards: the blocks are already at their
+ * new cells, and the group matrix starts out mapping them onto the old ones
+ * (turned back, flipped back, moved back to the old center), easing to identity.
+ */
+const TransitionGroup: React.FC<{
+  transition: StageTransition | null;
+  voxels: Voxel[];
+  offset: { x: number; z: number };
+  children: React.ReactNode;
+}> = ({ transition, voxels, offset, children }) => {
+  const ref = useRef<THREE.Group>(null);
+  const startedAt = useRef(0);
+
+  // Before the first frame with the new blocks, so they never flash in place
+  useLayoutEffect(() => {
+    startedAt.current = performance.now();
+  }, [transition?.key]);
+
+  const motion = useMemo(() => {
+    if (!transition || transition.from.length === 0 || voxels.length === 0) return null;
+    return {
+      from: getCenter(transition.from, offset),
+      to: getCenter(voxels, offset),
+      axis: transition.rotate && new THREE.Vector3(
+        transition.rotate.axis === 'x' ? 1 : 0,
+        transition.rotate.axis === 'y' ? 1 : 0,
+        transition.rotate.axis === 'z' ? 1 : 0
+      )
+    };
+    // Centers are taken once per transform; later edits don't restart the motion
+  }, [transition?.key]);
+
+  useFrame(() => {
+    const group = ref.current;
+    if (!group) return;
+    const t = Math.min(1, (performance.now() - startedAt.current) / TRANSITION_MS);
+    if (!transition || !motion || t >= 1) {
+      if (!group.matrix.equals(IDENTITY)) {
+        group.matrix.identity();
+        group.matrixWorldNeedsUpdate = true;
+      }
+      return;
+    }
+
+    const eased = 1 - Math.pow(1 - t, 3);
+    const matrix = new THREE.Matrix4().makeTranslation(motion.from.clone().lerp(motion.to, eased));
+    if (transition.rotate && motion.axis) {
+      matrix.multiply(new THREE.Matrix4().makeRotationAxis(motion.axis, -transition.rotate.angle * (1 - eased)));
+    }
+    if (transition.mirror) {
+      const flip = -1 + 2 * eased;
+      matrix.multiply(new THREE.Matrix4().makeScale(
+        transition.mirror === 'x' ? flip : 1,
+        1,
+        transition.mirror === 'z' ? flip : 1
+      ));
+    }
+    matrix.multiply(new THREE.Matrix4().makeTranslation(motion.to.clone().negate()));
+    group.matrix.copy(matrix);
+    group.matrixWorldNeedsUpdate = true;
+  });
+
+  return (
+    <group ref={ref} matrixAutoUpdate={false}>
+      {children}
+    </group>
+  );
+};
+
 // Component to render the list of voxels
 const VoxelLayer: React.FC<VoxelListProps> = ({
-  voxels, mode, onAddVoxel, onRemoveVoxel, showXRay, selectedColor
+  voxels, dimensions, mode, onAddVoxel, onRemoveVoxel, showXRay, selectedColor, highlightIds,
+  layerMode = 'all', activeLayer = 0, picking, transition = null
 }) => {
+  const offset = getBoardOffset(dimensions);
+  const visibleVoxels = voxels.filter(v => isLayerVisible(v.y, layerMode, activeLayer));
+
   return (
     <group position={[0, -0.5, 0]}>
-      {voxels.map((v) => (
+      <TransitionGroup transition={transition} voxels={voxels} offset={offset}>
+      {visibleVoxels.map((v) => (
         <VoxelMesh 
           key={v.id} 
           data={v} 
+          offset={offset}
           onRemove={onRemoveVoxel}
           onAdd={onAddVoxel}
           showXRay={showXRay}
           isGhost={mode === '2d-blueprint'}
+          isHighlighted={highlightIds?.has(v.id)}
+          isDimmed={layerMode !== 'all' && v.y < activeLayer}
+          picking={picking}
           defaultColor={selectedColor} // For ghosts or fallbacks
         />
       ))}
+      </TransitionGroup>
     </group>
   );
 };
 
 interface PlaneSelectorProps {
+  dimensions: GridDimensions;
   onAdd: (x: number, y: number, z: number) => void;
+  level: number; // Layer the plane builds on (0 = floor)
+  picking?: PickHandlers;
 }
 
-const PlaneSelector: React.FC<PlaneSelectorProps> = ({ onAdd }) => {
+const PlaneSelector: React.FC<PlaneSelectorProps> = ({ dimensions, onAdd, level, picking }) => {
   const [hoverPos, setHoverPos] = useState<[number, number, number] | null>(null);
+  const { width, depth } = dimensions;
+  const offset = getBoardOffset(dimensions);
+
+  // Floor cell under the pointer, or null outside the board
+  const getPick = (e: ThreeEvent<PointerEvent | MouseEvent>): StagePick | null => {
+    const x = Math.floor(e.point.x + width / 2);
+    const z = Math.floor(e.point.z + depth / 2);
+    if (x < 0 || x >= width || z < 0 || z >= depth) return null;
+    return { cell: { x, y: level, z }, voxel: null, normal: [0, 1, 0] };
+  };
 
   const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
     e.stopPropagation();
-    const x = Math.floor(e.point.x + GRID_SIZE / 2);
-    const z = Math.floor(e.point.z + GRID_SIZE / 2);
-    
-    if (x >= 0 && x < GRID_SIZE && z >= 0 && z < GRID_SIZE) {
-        setHoverPos([x, 0, z]);
-    } else {
-        setHoverPos(null);
-    }
+    const pick = getPick(e);
+    setHoverPos(pick ? [pick.cell.x, level, pick.cell.z] : null);
+    if (pick) picking?.move(pick);
+  };
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    const pick = getPick(e);
+    if (pick) picking?.down(pick);
   };
 
   const handleClick = (e: ThreeEvent<MouseEvent>) => {
     e.stopPropagation();
     if (e.delta > 10) return; // Ignore drag
-    const x = Math.floor(e.point.x + GRID_SIZE / 2);
-    const z = Math.floor(e.point.z + GRID_SIZE / 2);
-    
-    if (x >= 0 && x < GRID_SIZE && z >= 0 && z < GRID_SIZE) {
-      onAdd(x, 0, z);
-    }
+    const pick = getPick(e);
+    if (!pick) return;
+
+    if (picking) picking.click(pick);
+    else onAdd(pick.cell.x, pick.cell.y, pick.cell.z);
   };
 
   return (
     <group>
       <mesh 
         rotation={[-Math.PI / 2, 0, 0]} 
-        position={[0, 0, 0]} 
+        position={[0, level, 0]} 
         onPointerMove={handlePointerMove}
+        onPointerDown={picking ? handlePointerDown : undefined}
         onClick={handleClick}
         visible={false} 
       >
-        <planeGeometry args={[GRID_SIZE, GRID_SIZE]} />
+        <planeGeometry args={[width, depth]} />
         <meshBasicMaterial />
       </mesh>
 
       {hoverPos && (
          <mesh 
-            position={[hoverPos[0] - Math.floor(GRID_SIZE / 2), 0.02, hoverPos[2] - Math.floor(GRID_SIZE / 2)]} 
+            position={[hoverPos[0] - offset.x, level + 0.02, hoverPos[2] - offset.z]} 
             rotation={[-Math.PI / 2, 0, 0]}
          >
             <planeGeometry args={[1, 1]} />
             <meshBasicMaterial color={COLORS.primary} transparent opacity={0.4} />
          </mesh>
       )}
+
+      {/* Slice plane marking a raised building level */}
+      {level > 0 && (
+        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, level + 0.01, 0]}>
+          <planeGeometry key={`${width}x${depth}`} args={[width, depth]} />
+          <meshBasicMaterial color={COLORS.primary} transparent opacity={0.08} depthWrite={false} />
+          <Edges color={COLORS.primary} linewidth={1} />
+        </mesh>
+      )}
     </group>
   );
 }
 
-const Environment: React.FC<{ mode: ViewMode, onAddVoxel: (x: number, y: number, z: number) => void }> = ({ mode, onAddVoxel }) => {
+// Cell lines for a (possibly rectangular) board; gridHelper only draws squares
+const BoardGrid: React.FC<{ dimensions: GridDimensions }> = ({ dimensions }) => {
+  const { width, depth } = dimensions;
+
+  const positions = useMemo(() => {
+    const points: number[] = [];
+    for (let i = 0; i <= width; i++) {
+      const x = i - width / 2;
+      points.push(x, 0, -depth / 2, x, 0, depth / 2);
+    }
+    for (let j = 0; j <= depth; j++) {
+      const z = j - depth / 2;
+      points.push(-width / 2, 0, z, width / 2, 0, z);
+    }
+    return new Float32Array(points);
+  }, [width, depth]);
+
+  return (
+    <lineSegments position={[0, 0.005, 0]}>
+      <bufferGeometry key={`${width}x${depth}`}>
+        <bufferAttribute
+          attach="attributes-position"
+          count={positions.length / 3}
+          array={positions}
+          itemSize={3}
+        />
+      </bufferGeometry>
+      <lineBasicMaterial color={COLORS.gridLine} />
+    </lineSegments>
+  );
+};
+
+interface EnvironmentProps {
+  mode: ViewMode;
+  dimensions: GridDimensions;
+  onAddVoxel: (x: number, y: number, z: number) => void;
+  buildLevel: number;
+  picking?: PickHandlers;
+  orbitEnabled: boolean;
+}
+
+const Environment: React.FC<EnvironmentProps> = ({ mode, dimensions, onAddVoxel, buildLevel, picking, orbitEnabled }) => {
+  const { width, depth } = dimensions;
+
   return (
       <>
         <color attach="background" args={[COLORS.background]} />
@@ -254,36 +496,123 @@ const Environment: React.FC<{ mode: ViewMode, onAddVoxel: (x: number, y: number,
 
             <group position={[0, 0, 0]}>
                 <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, 0]} receiveShadow>
-                    <planeGeometry args={[GRID_SIZE, GRID_SIZE]} />
+                    <planeGeometry args={[width, depth]} />
                     <meshBasicMaterial color={COLORS.primary} transparent opacity={0.05} />
                 </mesh>
                 <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.005, 0]}>
-                    <planeGeometry args={[GRID_SIZE, GRID_SIZE]} />
+                    <planeGeometry key={`${width}x${depth}`} args={[width, depth]} />
                     <meshBasicMaterial transparent opacity={0} />
                     <Edges color={COLORS.primary} linewidth={2} />
                 </mesh>
-                <gridHelper 
-                    args={[GRID_SIZE, GRID_SIZE, COLORS.gridLine, COLORS.gridLine]} 
-                    position={[0, 0.005, 0]} 
-                />
+                <BoardGrid dimensions={dimensions} />
             </group>
             
             {mode === '3d-edit' && (
-                <PlaneSelector onAdd={onAddVoxel} />
+                <PlaneSelector dimensions={dimensions} onAdd={onAddVoxel} level={buildLevel} picking={picking} />
             )}
         </group>
 
-        <OrbitControls makeDefault enableDamping />
+        <OrbitControls makeDefault enableDamping enabled={orbitEnabled} />
       </>
   );
 };
 
+// Ghost blocks of a pending bulk edit and the faces selected for extruding.
+// Neither takes pointer events, so picking goes through to the real blocks.
+const PreviewLayer: React.FC<{
+  dimensions: GridDimensions;
+  cells: Cell[];
+  faces: FaceSelection | null;
+  color: string;
+}> = ({ dimensions, cells, faces, color }) => {
+  const offset = getBoardOffset(dimensions);
+
+  const faceRotation = (normal: Vector3): [number, number, number] =>
+    normal[1] !== 0 ? [-Math.PI / 2, 0, 0] : normal[0] !== 0 ? [0, Math.PI / 2, 0] : [0, 0, 0];
+
+  return (
+    <group position={[0, -0.5, 0]}>
+      {cells.map(c => (
+        <mesh key={`preview-${c.x},${c.y},${c.z}`} position={[c.x - offset.x, c.y + 0.5, c.z - offset.z]} raycast={() => null}>
+          <boxGeometry args={[1, 1, 1]} />
+          <meshStandardMaterial color={color} transparent opacity={0.45} depthWrite={false} />
+          <Edges color={COLORS.primary} threshold={15} />
+        </mesh>
+      ))}
+      {faces?.cells.map(c => (
+        <mesh
+          key={`face-${c.x},${c.y},${c.z}`}
+          position={[
+            c.x - offset.x + faces.normal[0] * 0.505,
+            c.y + 0.5 + faces.normal[1] * 0.505,
+            c.z - offset.z + faces.normal[2] * 0.505
+          ]}
+          rotation={faceRotation(faces.normal)}
+          raycast={() => null}
+        >
+          <planeGeometry args={[0.9, 0.9]} />
+          <meshBasicMaterial color={COLORS.secondary} transparent opacity={0.6} side={THREE.DoubleSide} depthWrite={false} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
 export const CubeStage: React.FC<CubeStageProps> = (props) => {
+  const { onPick, dragPick = false } = props;
+  const [dragging, setDragging] = useState(false);
+  const lastPick = useRef<StagePick | null>(null);
+
+  // A drag may end anywhere (even off the board), so listen on the window
+  useEffect(() => {
+    if (!dragging) return;
+    const handlePointerUp = () => {
+      setDragging(false);
+      if (lastPick.current) onPick?.(lastPick.current, 'end');
+    };
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => window.removeEventListener('pointerup', handlePointerUp);
+  }, [dragging, onPick]);
+
+  const picking: PickHandlers | undefined = onPick && {
+    down: (pick) => {
+      if (!dragPick) return;
+      lastPick.current = pick;
+      setDragging(true);
+      onPick(pick, 'start');
+    },
+    move: (pick) => {
+      if (!dragging) return;
+      lastPick.current = pick;
+      onPick(pick, 'move');
+    },
+    click: (pick) => {
+      if (!dragPick) onPick(pick, 'end');
+    }
+  };
+
+  // Pull the camera back on larger boards (8 units fits the default 5x5x5)
+  const { width, depth, height } = props.dimensions;
+  const cameraDistance = Math.max(8, Math.max(width, depth, height) * 1.6);
+
   return (
-    <Canvas shadows camera={{ position: [8, 8, 8], fov: 45 }}>
-        <Environment mode={props.mode} onAddVoxel={props.onAddVoxel} />
+    <Canvas shadows camera={{ position: [cameraDistance, cameraDistance, cameraDistance], fov: 45 }}>
+        <Environment
+          mode={props.mode}
+          dimensions={props.dimensions}
+          onAddVoxel={props.onAddVoxel}
+          buildLevel={props.layerMode && props.layerMode !== 'all' ? props.activeLayer ?? 0 : 0}
+          picking={picking}
+          orbitEnabled={!dragging}
+        />
         <ErrorBoundary fallback={null}>
-           <VoxelLayer {...props} />
+           <VoxelLayer {...props} picking={picking} />
+           <PreviewLayer
+             dimensions={props.dimensions}
+             cells={props.previewCells ?? []}
+             faces={props.selectedFaces ?? null}
+             color={props.selectedColor}
+           />
         </ErrorBoundary>
     </Canvas>
   );
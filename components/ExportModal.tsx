@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Download, Ruler } from 'lucide-react';
+import { Modal } from './Modal';
+import { Voxel } from '../types';
+import { CUBE_SIZE } from '../constants';
+import { ExportFormat, exportSTL, exportOBJ, exportGLB, downloadBlob } from '../utils/exportUtils';
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  voxels: Voxel[];
+}
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'stl', label: 'STL', description: '3D 프린터용 (단색, 닫힌 메시)' },
+  { value: 'obj', label: 'OBJ + MTL', description: '색상별 재질 포함 (파일 2개)' },
+  { value: 'glb', label: 'glTF (GLB)', description: '웹/3D 프로그램용 (색상 포함)' },
+];
+
+const BASE_FILENAME = 'cube-structure';
+
+export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, voxels }) => {
+  const [format, setFormat] = useState<ExportFormat>('stl');
+  const [scaleMm, setScaleMm] = useState<number>(20);
+
+  // Footprint of the structure in millimetres
+  const extent = (axis: 'x' | 'y' | 'z') => {
+    if (voxels.length === 0) return 0;
+    const values = voxels.map(v => v[axis]);
+    return (Math.max(...values) - Math.min(...values) + 1) * CUBE_SIZE * scaleMm;
+  };
+
+  const handleScaleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(e.target.value);
+    if (!isNaN(value) && value > 0) {
+      setScaleMm(value);
+    }
+  };
+
+  const handleExport = () => {
+    if (format === 'stl') {
+      downloadBlob(exportSTL(voxels, scaleMm), `${BASE_FILENAME}.stl`);
+    } else if (format === 'obj') {
+      const { obj, mtl } = exportOBJ(voxels, scaleMm, BASE_FILENAME);
+      downloadBlob(obj, `${BASE_FILENAME}.obj`);
+      downloadBlob(mtl, `${BASE_FILENAME}.mtl`);
+    } else {
+      downloadBlob(exportGLB(voxels, scaleMm), `${BASE_FILENAME}.glb`);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="3D 파일 내보내기">
+      <div className="space-y-4">
+        {/* Format */}
+        <div className="space-y-2">
+          {FORMAT_OPTIONS.map(option => (
+            <label
+              key={option.value}
+              className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                format === option.value
+                  ? 'border-indigo-300 bg-indigo-50'
+                  : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="export-format"
+                checked={format === option.value}
+                onChange={() => setFormat(option.value)}
+                className="text-indigo-600 focus:ring-indigo-500"
+              />
+              <div>
+                <div className="text-sm font-bold text-gray-800">{option.label}</div>
+                <div className="text-xs text-gray-500">{option.description}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        {/* Scale */}
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+          <div className="flex items-center gap-2 mb-2">
+            <Ruler size={16} className="text-amber-600" />
+            <span className="text-sm font-medium text-amber-800">블록 한 칸의 크기</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              value={scaleMm}
+              onChange={handleScaleChange}
+              min="1"
+              step="1"
+              className="w-24 px-3 py-2 border border-amber-300 rounded-lg text-center font-medium focus:ring-2 focus:ring-amber-500 focus:border-amber-500 outline-none"
+            />
+            <span className="text-sm text-amber-700">mm</span>
+          </div>
+          <p className="text-xs text-amber-600 mt-2">
+            완성 크기: {extent('x')} × {extent('z')} × {extent('y')} mm (가로 × 세로 × 높이)
+          </p>
+        </div>
+
+        <button
+          onClick={handleExport}
+          disabled={voxels.length === 0}
+          className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-bold py-3 px-6 rounded-xl transition-colors"
+        >
+          <Download size={18} />
+          내보내기
+        </button>
+      </div>
+    </Modal>
+  );
+};
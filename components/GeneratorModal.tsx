@@ -0,0 +1,126 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dices, Play, Pencil, AlertTriangle } from 'lucide-react';
+import { Modal } from './Modal';
+import { IsometricView } from './IsometricView';
+import { Difficulty, DIFFICULTY_PRESETS, GeneratedPuzzle, generatePuzzle, parseSeed, createRandomSeed } from '../utils/puzzleGenerator';
+
+interface GeneratorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onStartQuiz: (puzzle: GeneratedPuzzle) => void;
+  onOpenInEditor: (puzzle: GeneratedPuzzle) => void;
+}
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const GeneratorModal: React.FC<GeneratorModalProps> = ({
+  isOpen,
+  onClose,
+  onStartQuiz,
+  onOpenInEditor
+}) => {
+  const [difficulty, setDifficulty] = useState<Difficulty>('easy');
+  const [seedText, setSeedText] = useState('');
+
+  // Fresh seed every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setSeedText(String(createRandomSeed()));
+    }
+  }, [isOpen]);
+
+  const puzzle = useMemo(
+    () => (seedText.trim() ? generatePuzzle(difficulty, parseSeed(seedText)) : null),
+    [difficulty, seedText]
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="문제 자동 만들기" wide>
+      <div className="space-y-4">
+        {/* Difficulty */}
+        <div className="grid grid-cols-3 gap-2">
+          {DIFFICULTIES.map(level => (
+            <button
+              key={level}
+              onClick={() => setDifficulty(level)}
+              className={`p-3 rounded-xl border text-left transition-colors ${
+                difficulty === level
+                  ? 'border-indigo-300 bg-indigo-50'
+                  : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <div className="text-sm font-bold text-gray-800">{DIFFICULTY_PRESETS[level].label}</div>
+              <div className="text-xs text-gray-500 mt-0.5">{DIFFICULTY_PRESETS[level].description}</div>
+            </button>
+          ))}
+        </div>
+
+        {/* Seed */}
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium text-gray-700 shrink-0">시드</label>
+          <input
+            type="text"
+            value={seedText}
+            onChange={(e) => setSeedText(e.target.value)}
+            maxLength={20}
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+          />
+          <button
+            onClick={() => setSeedText(String(createRandomSeed()))}
+            className="flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors"
+            title="다른 문제 만들기"
+          >
+            <Dices size={16} />
+            새로 만들기
+          </button>
+        </div>
+        <p className="text-xs text-gray-400 -mt-2">
+          같은 난이도와 시드를 입력하면 언제나 같은 문제가 만들어져요.
+        </p>
+
+        {/* Preview */}
+        {puzzle && (
+          <div className="flex gap-4 border border-gray-200 rounded-xl p-4">
+            <div className="shrink-0 bg-sky-50 rounded-lg p-1">
+              <IsometricView voxels={puzzle.voxels} size={120} />
+            </div>
+            <div className="text-sm text-gray-600 space-y-1">
+              <div>블록 {puzzle.voxels.length}개 · 최고 {puzzle.maxHeight}층</div>
+              <div>보이지 않는 블록 {puzzle.hiddenCount}개</div>
+              <div>
+                {puzzle.unique
+                  ? '세 방향 모습만으로 개수가 정해져요.'
+                  : '숫자 힌트가 있어야 개수가 정해져요.'}
+              </div>
+              {!puzzle.matchesPreset && (
+                <div className="flex items-center gap-1 text-amber-600 text-xs">
+                  <AlertTriangle size={12} />
+                  조건에 딱 맞는 구조를 찾지 못해 가장 가까운 문제를 골랐어요.
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => puzzle && onOpenInEditor(puzzle)}
+            disabled={!puzzle}
+            className="flex items-center justify-center gap-2 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed text-gray-700 font-bold py-3 px-4 rounded-xl transition-colors"
+          >
+            <Pencil size={18} />
+            에디터에서 열기
+          </button>
+          <button
+            onClick={() => puzzle && onStartQuiz(puzzle)}
+            disabled={!puzzle}
+            className="flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-xl transition-colors"
+          >
+            <Play size={18} />
+            퀴즈 시작
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -1,5 +1,5 @@
 import React from 'react';
-import { GRID_SIZE } from '../constants';
+import { BlueprintCellIssue } from '../utils/voxelEngine';
 
 interface Grid2DProps {
   label: string;
@@ -7,6 +7,8 @@ interface Grid2DProps {
   onToggle?: (row: number, col: number) => void;
   editable: boolean;
   numbers?: (number | null)[][]; // For top view height numbers
+  colors?: (string | null)[][]; // Color of the visible block per cell, instead of a flat fill
+  highlights?: BlueprintCellIssue[][]; // Blueprint consistency problems
   xAxisLabel?: string;
   yAxisLabel?: string;
   headerAction?: React.ReactNode;
@@ -18,10 +20,17 @@ export const Grid2D: React.FC<Grid2DProps> = ({
   onToggle, 
   editable, 
   numbers,
+  colors,
+  highlights,
   xAxisLabel,
   yAxisLabel,
   headerAction
 }) => {
+  const columns = data[0]?.length ?? 0;
+
+  // Shrink cells on wide boards so the grid still fits the sidebar
+  const cellSize = columns <= 6 ? 'w-8 h-8 text-xs' : 'w-6 h-6 text-[10px]';
+
   return (
     <div className="flex flex-col items-center bg-white p-3 rounded-lg shadow-sm border border-gray-100">
       <div className="flex justify-between items-center w-full mb-2">
@@ -30,20 +39,26 @@ export const Grid2D: React.FC<Grid2DProps> = ({
       </div>
       <div 
         className="grid gap-1 bg-gray-200 p-1 rounded"
-        style={{ gridTemplateColumns: `repeat(${GRID_SIZE}, 1fr)` }}
+        style={{ gridTemplateColumns: `repeat(${columns}, 1fr)` }}
       >
         {data.map((row, rIndex) => (
           row.map((active, cIndex) => {
             const num = numbers ? numbers[rIndex][cIndex] : null;
+            const issue = highlights?.[rIndex]?.[cIndex];
+            const color = colors?.[rIndex]?.[cIndex];
             return (
               <div
                 key={`${rIndex}-${cIndex}`}
                 onClick={() => editable && onToggle && onToggle(rIndex, cIndex)}
                 className={`
-                  w-8 h-8 flex items-center justify-center text-xs font-bold rounded-sm transition-all duration-200 select-none
+                  ${cellSize} flex items-center justify-center font-bold rounded-sm transition-all duration-200 select-none
                   ${editable ? 'cursor-pointer hover:opacity-80' : 'cursor-default'}
-                  ${active || (num && num > 0) ? 'bg-indigo-500 text-white shadow-sm' : 'bg-white text-gray-300'}
+                  ${issue === 'impossible' ? 'bg-red-400 text-white ring-2 ring-inset ring-red-600'
+                    : issue === 'missing' ? 'bg-amber-100 ring-1 ring-inset ring-amber-400'
+                    : color ? 'text-white shadow-sm'
+                    : active || (num && num > 0) ? 'bg-indigo-500 text-white shadow-sm' : 'bg-white text-gray-300'}
                 `}
+                style={color && !issue ? { backgroundColor: color, textShadow: '0 0 2px rgba(0, 0, 0, 0.6)' } : undefined}
               >
                 {numbers ? (num && num > 0 ? num : '') : ''}
               </div>
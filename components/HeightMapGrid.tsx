@@ -0,0 +1,71 @@
+import React from 'react';
+
+interface HeightMapGridProps {
+  label: string;
+  heights: number[][]; // Row = Z, Col = X
+  maxHeight: number;
+  onChange: (row: number, col: number, height: number) => void;
+  xAxisLabel?: string;
+  yAxisLabel?: string;
+}
+
+// Top View where each cell holds a column height.
+// Tap to count up (wrapping back to 0), or focus a cell and type a digit.
+export const HeightMapGrid: React.FC<HeightMapGridProps> = ({
+  label,
+  heights,
+  maxHeight,
+  onChange,
+  xAxisLabel,
+  yAxisLabel
+}) => {
+  const columns = heights[0]?.length ?? 0;
+  const cellSize = columns <= 6 ? 'w-8 h-8 text-xs' : 'w-6 h-6 text-[10px]';
+
+  const handleKeyDown = (e: React.KeyboardEvent, row: number, col: number) => {
+    if (/^[0-9]$/.test(e.key)) {
+      e.preventDefault();
+      onChange(row, col, Math.min(parseInt(e.key, 10), maxHeight));
+    } else if (e.key === 'Backspace' || e.key === 'Delete') {
+      e.preventDefault();
+      onChange(row, col, 0);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center bg-white p-3 rounded-lg shadow-sm border border-gray-100">
+      <div className="flex justify-between items-center w-full mb-2">
+        <h3 className="text-sm font-bold text-gray-700">{label}</h3>
+      </div>
+      <div
+        className="grid gap-1 bg-gray-200 p-1 rounded"
+        style={{ gridTemplateColumns: `repeat(${columns}, 1fr)` }}
+      >
+        {heights.map((row, rIndex) => (
+          row.map((height, cIndex) => (
+            <button
+              key={`${rIndex}-${cIndex}`}
+              type="button"
+              onClick={() => onChange(rIndex, cIndex, (height + 1) % (maxHeight + 1))}
+              onKeyDown={(e) => handleKeyDown(e, rIndex, cIndex)}
+              className={`
+                ${cellSize} flex items-center justify-center font-bold rounded-sm transition-all duration-200 select-none
+                cursor-pointer hover:opacity-80 focus:outline-none focus:ring-2 focus:ring-pink-400
+                ${height > 0 ? 'bg-indigo-500 text-white shadow-sm' : 'bg-white text-gray-300'}
+              `}
+              title="클릭하면 1층씩 올라가요 (숫자 키로 바로 입력)"
+            >
+              {height > 0 ? height : ''}
+            </button>
+          ))
+        ))}
+      </div>
+      {(xAxisLabel || yAxisLabel) && (
+        <div className="flex justify-between w-full text-[10px] text-gray-400 mt-1 px-1">
+           <span>{xAxisLabel}</span>
+           <span>{yAxisLabel}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,229 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Upload, FileText, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Modal } from './Modal';
+import { IsometricView } from './IsometricView';
+import { Voxel, GridDimensions } from '../types';
+import { ParsedModel, parseVoxFile, parseVoxelCsv, fitToDimensions, isDimensionsAllowed } from '../utils/importUtils';
+
+interface ImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  dimensions: GridDimensions; // Current editor grid
+  onImport: (voxels: Voxel[], dimensions: GridDimensions) => void;
+}
+
+// Number of dropped coordinates listed in the report
+const DROPPED_PREVIEW_COUNT = 8;
+
+export const ImportModal: React.FC<ImportModalProps> = ({
+  isOpen,
+  onClose,
+  dimensions,
+  onImport
+}) => {
+  const [csvText, setCsvText] = useState('');
+  const [model, setModel] = useState<ParsedModel | null>(null);
+  const [sourceName, setSourceName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [fitMode, setFitMode] = useState<'crop' | 'reject'>('crop');
+  const [normalize, setNormalize] = useState(true);
+  const [growGrid, setGrowGrid] = useState(true);
+
+  // Reset state when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setCsvText('');
+      setModel(null);
+      setSourceName('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleParsed = (parse: () => ParsedModel, name: string) => {
+    try {
+      setModel(parse());
+      setSourceName(name);
+      setError(null);
+    } catch (e) {
+      setModel(null);
+      setError(e instanceof Error ? e.message : '파일을 읽지 못했습니다.');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    if (file.name.toLowerCase().endsWith('.vox')) {
+      const buffer = await file.arrayBuffer();
+      handleParsed(() => parseVoxFile(buffer), file.name);
+    } else {
+      const text = await file.text();
+      handleParsed(() => parseVoxelCsv(text), file.name);
+    }
+  };
+
+  const handleParseText = () => {
+    handleParsed(() => parseVoxelCsv(csvText), '붙여넣은 좌표');
+  };
+
+  // Grid the model will be placed into: optionally grown to fit the model
+  const preview = useMemo(() => {
+    if (!model) return null;
+    const first = fitToDimensions(model.voxels, dimensions, { mode: fitMode, normalize });
+    const grown: GridDimensions = {
+      width: Math.max(dimensions.width, first.requiredDimensions.width),
+      depth: Math.max(dimensions.depth, first.requiredDimensions.depth),
+      height: Math.max(dimensions.height, first.requiredDimensions.height)
+    };
+    const canGrow = first.dropped.length > 0 && isDimensionsAllowed(grown);
+    const target = growGrid && canGrow ? grown : dimensions;
+    const result = target === dimensions
+      ? first
+      : fitToDimensions(model.voxels, target, { mode: fitMode, normalize });
+    return { result, target, canGrow };
+  }, [model, dimensions, fitMode, normalize, growGrid]);
+
+  const handleImport = () => {
+    if (!preview || preview.result.rejected || preview.result.voxels.length === 0) return;
+    onImport(preview.result.voxels, preview.target);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="구조물 가져오기" wide>
+      <div className="space-y-4">
+        {/* Sources */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="flex flex-col items-center justify-center gap-2 p-4 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer hover:border-indigo-400 hover:bg-indigo-50/50 transition-colors text-center">
+            <Upload size={24} className="text-indigo-500" />
+            <span className="text-sm font-medium text-gray-700">파일 선택</span>
+            <span className="text-xs text-gray-400">MagicaVoxel .vox, .csv, .txt</span>
+            <input
+              type="file"
+              accept=".vox,.csv,.txt"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </label>
+
+          <div className="flex flex-col gap-2">
+            <textarea
+              value={csvText}
+              onChange={(e) => setCsvText(e.target.value)}
+              placeholder={'x,y,z[,색상]  (y는 높이)\n0,0,0,#F59E0B\n1,0,0\n1,1,0'}
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none resize-none"
+            />
+            <button
+              onClick={handleParseText}
+              disabled={!csvText.trim()}
+              className="flex items-center justify-center gap-2 px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <FileText size={14} />
+              좌표 읽기
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-start gap-2 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {/* Report */}
+        {model && preview && (
+          <div className="border border-gray-200 rounded-xl p-4 space-y-3">
+            <div className="flex gap-4">
+              <div className="shrink-0 bg-sky-50 rounded-lg p-1">
+                <IsometricView voxels={preview.result.voxels} size={96} />
+              </div>
+              <div className="flex-1 min-w-0 text-sm space-y-1">
+                <div className="font-medium text-gray-800 truncate">{sourceName}</div>
+                <div className="text-gray-600">
+                  블록 {model.voxels.length}개 · 모델 크기 {preview.result.requiredDimensions.width}×{preview.result.requiredDimensions.depth}×{preview.result.requiredDimensions.height}
+                </div>
+                <div className="text-gray-600">
+                  넣을 격자: {preview.target.width}×{preview.target.depth}×{preview.target.height}
+                </div>
+                {preview.result.dropped.length === 0 ? (
+                  <div className="flex items-center gap-1 text-emerald-600">
+                    <CheckCircle size={14} /> 모든 블록이 격자 안에 들어갑니다.
+                  </div>
+                ) : (
+                  <div className="text-red-600">
+                    {preview.result.rejected
+                      ? `격자를 벗어난 블록 ${preview.result.dropped.length}개 때문에 가져올 수 없습니다.`
+                      : `격자를 벗어난 블록 ${preview.result.dropped.length}개를 잘라냅니다.`}
+                    <div className="text-xs font-mono text-red-500 mt-1">
+                      {preview.result.dropped.slice(0, DROPPED_PREVIEW_COUNT).map(v => `(${v.x},${v.y},${v.z})`).join(' ')}
+                      {preview.result.dropped.length > DROPPED_PREVIEW_COUNT && ' …'}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {model.warnings.length > 0 && (
+              <ul className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-2 space-y-0.5">
+                {model.warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+              </ul>
+            )}
+
+            {/* Options */}
+            <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm text-gray-700">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={fitMode === 'crop'}
+                  onChange={() => setFitMode('crop')}
+                  className="text-indigo-600 focus:ring-indigo-500"
+                />
+                벗어난 부분 잘라내기
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={fitMode === 'reject'}
+                  onChange={() => setFitMode('reject')}
+                  className="text-indigo-600 focus:ring-indigo-500"
+                />
+                벗어나면 가져오지 않기
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={normalize}
+                  onChange={(e) => setNormalize(e.target.checked)}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                모서리(0,0,0)에 맞추기
+              </label>
+              {preview.canGrow && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={growGrid}
+                    onChange={(e) => setGrowGrid(e.target.checked)}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  격자 크기를 모델에 맞게 늘리기
+                </label>
+              )}
+            </div>
+          </div>
+        )}
+
+        <button
+          onClick={handleImport}
+          disabled={!preview || preview.result.rejected || preview.result.voxels.length === 0}
+          className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-bold py-3 px-6 rounded-xl transition-colors"
+        >
+          에디터로 가져오기
+        </button>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,42 @@
+import React, { useMemo } from 'react';
+import { Voxel } from '../types';
+import { buildIsometricDrawing } from '../utils/isometric';
+
+interface IsometricViewProps {
+  voxels: Voxel[];
+  size: number; // Rendered width/height in pixels
+  lineArt?: boolean;
+  className?: string;
+}
+
+// Lightweight SVG drawing of a structure (no WebGL), used for thumbnails
+export const IsometricView: React.FC<IsometricViewProps> = ({
+  voxels,
+  size,
+  lineArt = false,
+  className
+}) => {
+  const drawing = useMemo(() => buildIsometricDrawing(voxels, lineArt), [voxels, lineArt]);
+  const padding = 0.2;
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`${drawing.minX - padding} ${drawing.minY - padding} ${drawing.width + padding * 2} ${drawing.height + padding * 2}`}
+      preserveAspectRatio="xMidYMid meet"
+      className={className}
+    >
+      {drawing.polygons.map((polygon, i) => (
+        <polygon
+          key={i}
+          points={polygon.points.map(([x, y]) => `${x},${y}`).join(' ')}
+          fill={polygon.fill}
+          stroke="#1F2937"
+          strokeWidth={0.04}
+          strokeLinejoin="round"
+        />
+      ))}
+    </svg>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useMemo } from 'react';
+import { Voxel, GridDimensions } from '../types';
+import { COLORS } from '../constants';
+
+interface LayerMapProps {
+  label: string;
+  voxels: Voxel[];
+  dimensions: GridDimensions;
+  layer: number;
+  onToggle: (x: number, z: number) => void;
+}
+
+// One layer seen from above (Row = Z, Col = X, like the Top View).
+// Cells with a block underneath are tinted to show where a block can rest.
+export const LayerMap: React.FC<LayerMapProps> = ({ label, voxels, dimensions, layer, onToggle }) => {
+  const { cells, below } = useMemo(() => {
+    const cells: (string | null)[][] = Array(dimensions.depth).fill(null).map(() => Array(dimensions.width).fill(null));
+    const below: boolean[][] = Array(dimensions.depth).fill(null).map(() => Array(dimensions.width).fill(false));
+    voxels.forEach(v => {
+      if (v.x < 0 || v.x >= dimensions.width || v.z < 0 || v.z >= dimensions.depth) return;
+      if (v.y === layer) cells[v.z][v.x] = v.color || COLORS.voxelDefault;
+      else if (v.y === layer - 1) below[v.z][v.x] = true;
+    });
+    return { cells, below };
+  }, [voxels, dimensions, layer]);
+
+  const cellSize = dimensions.width <= 6 ? 'w-8 h-8' : 'w-6 h-6';
+
+  return (
+    <div className="flex flex-col items-center bg-white p-3 rounded-lg shadow-sm border border-gray-100">
+      <div className="flex justify-between items-center w-full mb-2">
+        <h3 className="text-sm font-bold text-gray-700">{label}</h3>
+      </div>
+      <div
+        className="grid gap-1 bg-gray-200 p-1 rounded"
+        style={{ gridTemplateColumns: `repeat(${dimensions.width}, 1fr)` }}
+      >
+        {cells.map((row, z) => (
+          row.map((color, x) => (
+            <button
+              key={`${z}-${x}`}
+              type="button"
+              onClick={() => onToggle(x, z)}
+              className={`
+                ${cellSize} rounded-sm transition-all duration-200 cursor-pointer hover:opacity-80
+                focus:outline-none focus:ring-2 focus:ring-pink-400
+                ${color ? 'shadow-sm' : below[z][x] ? 'bg-indigo-100' : 'bg-white'}
+              `}
+              style={color ? { backgroundColor: color } : undefined}
+              title={color ? '블록 빼기' : '블록 놓기'}
+            />
+          ))
+        ))}
+      </div>
+      <div className="flex items-center gap-1 w-full text-[10px] text-gray-400 mt-1 px-1">
+        <span className="inline-block h-2.5 w-2.5 rounded-sm bg-indigo-100" /> 아래층에 블록이 있는 칸
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { LayerMode } from '../types';
+
+interface LayerPanelProps {
+  counts: number[]; // Blocks per layer, ground layer first
+  layerMode: LayerMode;
+  setLayerMode: (mode: LayerMode) => void;
+  activeLayer: number;
+  setActiveLayer: (layer: number) => void;
+}
+
+const LAYER_MODES: { mode: LayerMode; label: string }[] = [
+  { mode: 'all', label: '전체' },
+  { mode: 'up-to', label: '아래층까지' },
+  { mode: 'single', label: '한 층만' }
+];
+
+// Layer slicing controls and the "count by layers" list (layers shown 1층 = ground)
+export const LayerPanel: React.FC<LayerPanelProps> = ({
+  counts,
+  layerMode,
+  setLayerMode,
+  activeLayer,
+  setActiveLayer
+}) => {
+  const maxCount = Math.max(1, ...counts);
+
+  // Picking a layer from the list while every layer is shown starts slicing there
+  const handlePickLayer = (layer: number) => {
+    setActiveLayer(layer);
+    if (layerMode === 'all') setLayerMode('single');
+  };
+
+  return (
+    <div className="space-y-2 bg-white p-3 rounded-lg shadow-sm border border-gray-100">
+      <div className="flex items-center gap-2 text-sm font-bold text-gray-700">
+        <Layers size={14} /> 층별로 보기
+      </div>
+
+      <div className="flex rounded-lg bg-gray-100 p-0.5 text-xs">
+        {LAYER_MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => setLayerMode(mode)}
+            className={`flex-1 rounded-md px-2 py-1 font-medium transition-colors ${
+              layerMode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {layerMode !== 'all' && (
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          <input
+            type="range"
+            min={1}
+            max={counts.length}
+            value={activeLayer + 1}
+            onChange={(e) => setActiveLayer(parseInt(e.target.value, 10) - 1)}
+            className="flex-1 accent-indigo-600"
+          />
+          <span className="w-8 text-right font-bold text-indigo-700">{activeLayer + 1}층</span>
+        </label>
+      )}
+
+      <ul className="space-y-0.5">
+        {counts.map((count, layer) => ({ count, layer })).reverse().map(({ count, layer }) => (
+          <li key={layer}>
+            <button
+              type="button"
+              onClick={() => handlePickLayer(layer)}
+              className={`flex w-full items-center gap-2 rounded px-1.5 py-0.5 text-xs transition-colors ${
+                layerMode !== 'all' && layer === activeLayer ? 'bg-indigo-50 text-indigo-700' : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              <span className="w-7 shrink-0 text-left font-medium">{layer + 1}층</span>
+              <span className="h-2 flex-1 overflow-hidden rounded-full bg-gray-100">
+                <span
+                  className="block h-full rounded-full bg-indigo-400"
+                  style={{ width: `${(count / maxCount) * 100}%` }}
+                />
+              </span>
+              <span className="w-8 shrink-0 text-right">{count}개</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { Save, FolderOpen, Copy, Trash2, Pencil, Check, Share2, AlertTriangle, ListOrdered } from 'lucide-react';
+import { Modal } from './Modal';
+import { IsometricView } from './IsometricView';
+import { SavedStructure } from '../types';
+
+interface LibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: SavedStructure[];
+  storageError: boolean;
+  canSaveCurrent: boolean;
+  sameShapeItem: SavedStructure | null; // Saved item shaped like the current structure
+  onSaveCurrent: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onOpen: (item: SavedStructure) => void;
+  onShare: (item: SavedStructure) => void;
+  onCreateSet: () => void;
+}
+
+const formatDate = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleDateString('ko-KR', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export const LibraryModal: React.FC<LibraryModalProps> = ({
+  isOpen,
+  onClose,
+  items,
+  storageError,
+  canSaveCurrent,
+  sameShapeItem,
+  onSaveCurrent,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onOpen,
+  onShare,
+  onCreateSet
+}) => {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  // Reset state when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setNewName('');
+      setEditingId(null);
+    }
+  }, [isOpen]);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim() || `구조물 ${items.length + 1}`;
+    if (sameShapeItem && !confirm(`"${sameShapeItem.name}"과(와) 같은 모양이 이미 저장되어 있어요. 그래도 저장할까요?`)) {
+      return;
+    }
+    onSaveCurrent(name);
+    setNewName('');
+  };
+
+  const startRename = (item: SavedStructure) => {
+    setEditingId(item.id);
+    setEditingName(item.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && editingName.trim()) {
+      onRename(editingId, editingName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (item: SavedStructure) => {
+    if (confirm(`"${item.name}"을(를) 삭제할까요?`)) {
+      onDelete(item.id);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="내 구조물" wide>
+      <div className="space-y-4">
+        {/* Save Current */}
+        <form onSubmit={handleSave} className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="이름 (예: 계단 모양)"
+            maxLength={40}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!canSaveCurrent}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+          >
+            <Save size={16} />
+            현재 구조 저장
+          </button>
+        </form>
+
+        {sameShapeItem && (
+          <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 rounded-lg p-2 text-xs text-amber-700 -mt-2">
+            <Copy size={14} />
+            "{sameShapeItem.name}"과(와) 같은 모양이에요. (돌리거나 옮긴 모양도 같은 것으로 봐요)
+          </div>
+        )}
+
+        <button
+          onClick={onCreateSet}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-indigo-200 text-indigo-700 rounded-lg text-sm font-medium hover:bg-indigo-50 transition-colors"
+        >
+          <ListOrdered size={16} />
+          여러 문제를 묶어 퀴즈 세트 만들기
+        </button>
+
+        {storageError && (
+          <div className="flex items-center gap-2 bg-red-50 border border-red-200 rounded-lg p-2 text-xs text-red-700">
+            <AlertTriangle size={14} />
+            브라우저 저장 공간에 저장하지 못했어요. 오래된 구조물을 삭제해 주세요.
+          </div>
+        )}
+
+        {/* Items */}
+        {items.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-8">
+            저장된 구조물이 없습니다.
+          </p>
+        ) : (
+          <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {items.map((item) => (
+              <li key={item.id} className="flex gap-3 p-3 border border-gray-200 rounded-xl hover:border-indigo-200 transition-colors">
+                <button
+                  onClick={() => onOpen(item)}
+                  className="shrink-0 bg-sky-50 rounded-lg p-1 hover:bg-indigo-50 transition-colors"
+                  title="에디터에서 열기"
+                >
+                  <IsometricView voxels={item.voxels} size={72} />
+                </button>
+
+                <div className="flex-1 min-w-0 flex flex-col">
+                  {editingId === item.id ? (
+                    <div className="flex gap-1">
+                      <input
+                        type="text"
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') {
+                            e.stopPropagation();
+                            setEditingId(null);
+                          }
+                        }}
+                        maxLength={40}
+                        autoFocus
+                        className="flex-1 min-w-0 px-2 py-1 border border-indigo-300 rounded text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                      <button
+                        onClick={commitRename}
+                        className="p-1 text-indigo-600 hover:bg-indigo-50 rounded"
+                        title="이름 저장"
+                      >
+                        <Check size={14} />
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="font-medium text-sm text-gray-800 truncate" title={item.name}>
+                      {item.name}
+                    </div>
+                  )}
+                  <div className="text-xs text-gray-400 mt-0.5">
+                    블록 {item.voxels.length}개 · {item.dimensions.width}×{item.dimensions.depth}×{item.dimensions.height}
+                  </div>
+                  <div className="text-xs text-gray-400">{formatDate(item.updatedAt)}</div>
+
+                  <div className="flex gap-1 mt-auto pt-2">
+                    <button
+                      onClick={() => onOpen(item)}
+                      className="p-1.5 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
+                      title="열기"
+                    >
+                      <FolderOpen size={14} />
+                    </button>
+                    <button
+                      onClick={() => startRename(item)}
+                      className="p-1.5 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
+                      title="이름 바꾸기"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => onDuplicate(item.id)}
+                      className="p-1.5 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
+                      title="복제"
+                    >
+                      <Copy size={14} />
+                    </button>
+                    <button
+                      onClick={() => onShare(item)}
+                      disabled={item.voxels.length === 0}
+                      className="p-1.5 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                      title="퀴즈로 공유"
+                    >
+                      <Share2 size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(item)}
+                      className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors ml-auto"
+                      title="삭제"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+};
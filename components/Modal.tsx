@@ -1,6 +1,12 @@
 import React, { useEffect, useState } from 'react';
-import { X, Link2, QrCode, Clock, Copy, Check } from 'lucide-react';
+import { X, Link2, QrCode, Clock, Copy, Check, AlertTriangle } from 'lucide-react';
 import QRCode from 'react-qr-code';
+import { ProjectionSolution } from '../utils/voxelEngine';
+import { formatShareOptions } from '../utils/shareUtils';
+import { QUESTION_TYPES, QUESTION_TYPE_ORDER } from '../utils/questionTypes';
+import { QuestionType, ViewDirection } from '../types';
+import { DEFAULT_VIEWS } from '../constants';
+import { ViewPicker } from './ViewPicker';
 
 interface ModalProps {
   isOpen: boolean;
@@ -8,6 +14,7 @@ interface ModalProps {
   children: React.ReactNode;
   title?: string;
   showCloseButton?: boolean;
+  wide?: boolean; // Wider panel for lists and tables
 }
 
 export const Modal: React.FC<ModalProps> = ({
@@ -15,7 +22,8 @@ export const Modal: React.FC<ModalProps> = ({
   onClose,
   children,
   title,
-  showCloseButton = true
+  showCloseButton = true,
+  wide = false
 }) => {
   // Close on Escape key
   useEffect(() => {
@@ -45,7 +53,7 @@ export const Modal: React.FC<ModalProps> = ({
       />
 
       {/* Modal Content */}
-      <div className="relative bg-white rounded-2xl shadow-2xl max-w-md w-full mx-4 overflow-hidden animate-in fade-in zoom-in duration-200">
+      <div className={`relative bg-white rounded-2xl shadow-2xl ${wide ? 'max-w-2xl' : 'max-w-md'} w-full mx-4 overflow-hidden animate-in fade-in zoom-in duration-200`}>
         {/* Header */}
         {(title || showCloseButton) && (
           <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
@@ -64,7 +72,7 @@ export const Modal: React.FC<ModalProps> = ({
         )}
 
         {/* Body */}
-        <div className="p-6">
+        <div className="p-6 max-h-[80vh] overflow-y-auto">
           {children}
         </div>
       </div>
@@ -76,8 +84,9 @@ export const Modal: React.FC<ModalProps> = ({
 interface ResultModalProps {
   isOpen: boolean;
   isCorrect: boolean;
-  correctAnswer: number;
-  userAnswer: number;
+  correctText: string; // Formatted correct answer (e.g. "12개", "3~5개")
+  userText: string; // Formatted student answer
+  rangeAccepted?: boolean; // Every answer in a range counts as correct
   onReveal: () => void;
   onClose: () => void;
 }
@@ -85,8 +94,9 @@ interface ResultModalProps {
 export const ResultModal: React.FC<ResultModalProps> = ({
   isOpen,
   isCorrect,
-  correctAnswer,
-  userAnswer,
+  correctText,
+  userText,
+  rangeAccepted = false,
   onReveal,
   onClose
 }) => {
@@ -106,7 +116,11 @@ export const ResultModal: React.FC<ResultModalProps> = ({
               정답입니다!
             </h3>
             <p className="text-gray-600 mb-6">
-              맞았습니다! 블록은 <span className="font-bold text-indigo-600">{correctAnswer}개</span>입니다.
+              {rangeAccepted ? (
+                <>맞았습니다! <span className="font-bold text-indigo-600">{correctText}</span> 모두 정답입니다.</>
+              ) : (
+                <>맞았습니다! 정답은 <span className="font-bold text-indigo-600">{correctText}</span>입니다.</>
+              )}
             </p>
           </>
         ) : (
@@ -120,10 +134,10 @@ export const ResultModal: React.FC<ResultModalProps> = ({
               틀렸습니다
             </h3>
             <p className="text-gray-600 mb-2">
-              입력하신 답: <span className="font-bold">{userAnswer}개</span>
+              입력하신 답: <span className="font-bold">{userText}</span>
             </p>
             <p className="text-gray-600 mb-6">
-              정답은 <span className="font-bold text-indigo-600">{correctAnswer}개</span>입니다.
+              정답은 <span className="font-bold text-indigo-600">{correctText}</span>입니다.
             </p>
           </>
         )}
@@ -144,21 +158,41 @@ interface ShareModalProps {
   isOpen: boolean;
   onClose: () => void;
   baseShareUrl: string; // URL without timer param
+  analysis?: ProjectionSolution | null; // Projection analysis of the shared structure
 }
 
 export const ShareModal: React.FC<ShareModalProps> = ({
   isOpen,
   onClose,
-  baseShareUrl
+  baseShareUrl,
+  analysis
 }) => {
   const [activeTab, setActiveTab] = useState<'url' | 'qr'>('url');
   const [timer, setTimer] = useState<number>(60);
   const [copied, setCopied] = useState(false);
+  const [acceptRange, setAcceptRange] = useState(false);
+  const [showNumbers, setShowNumbers] = useState(false);
+  const [exactCount, setExactCount] = useState(false);
+  const [questionType, setQuestionType] = useState<QuestionType>('count');
+  const [views, setViews] = useState<ViewDirection[]>(DEFAULT_VIEWS);
+  const [colorViews, setColorViews] = useState(false);
 
-  // Generate URL with timer
-  const shareUrl = timer > 0
+  // The three views allow several block counts (only matters for counting)
+  const isAmbiguous = questionType === 'count' && !!analysis && analysis.consistent && analysis.min !== analysis.max;
+
+  // Generate URL with timer and share options
+  const optionsSuffix = formatShareOptions({
+    questionType,
+    // Without an exact minimum, only the proven lower bound is safe to accept from
+    acceptRange: isAmbiguous && acceptRange ? { min: analysis.minBound, max: analysis.max } : null,
+    showNumbers: isAmbiguous && showNumbers,
+    exactCount: questionType === 'build' && exactCount,
+    views,
+    colorViews: QUESTION_TYPES[questionType].stimulus === 'views' && colorViews
+  });
+  const shareUrl = (timer > 0
     ? `${baseShareUrl}&timer=${timer}`
-    : baseShareUrl;
+    : baseShareUrl) + optionsSuffix;
 
   const handleCopy = async () => {
     try {
@@ -181,12 +215,99 @@ export const ShareModal: React.FC<ShareModalProps> = ({
   useEffect(() => {
     if (isOpen) {
       setCopied(false);
+      setAcceptRange(false);
+      setShowNumbers(false);
+      setExactCount(false);
+      setQuestionType('count');
+      setViews(DEFAULT_VIEWS);
+      setColorViews(false);
     }
   }, [isOpen]);
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} title="퀴즈 공유하기">
       <div className="space-y-4">
+        {/* Question Type */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">문제 유형</label>
+          <select
+            value={questionType}
+            onChange={(e) => setQuestionType(e.target.value as QuestionType)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+          >
+            {QUESTION_TYPE_ORDER.map(type => (
+              <option key={type} value={type}>{QUESTION_TYPES[type].label}</option>
+            ))}
+          </select>
+        </div>
+
+        {QUESTION_TYPES[questionType].stimulus === 'views' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">보여줄 모습</label>
+            <ViewPicker views={views} onChange={setViews} />
+            <label className="flex items-center gap-2 mt-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={colorViews}
+                onChange={(e) => setColorViews(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              보이는 블록의 색으로 그리기
+            </label>
+          </div>
+        )}
+
+        {questionType === 'build' && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={exactCount}
+              onChange={(e) => setExactCount(e.target.checked)}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            출제한 모양과 블록 개수까지 같아야 정답
+          </label>
+        )}
+
+        {/* Ambiguity Warning */}
+        {isAmbiguous && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 space-y-2">
+            <div className="flex items-start gap-2">
+              <AlertTriangle size={16} className="text-red-600 mt-0.5 shrink-0" />
+              <p className="text-sm text-red-800">
+                세 방향 모습만으로는 블록 수가 하나로 정해지지 않아요.
+                <span className="font-bold"> {analysis.exact ? '' : '약 '}{analysis.min}개 ~ {analysis.max}개</span>가 모두 가능합니다.
+              </p>
+            </div>
+            {!acceptRange && !showNumbers && (
+              <p className="text-xs text-red-600">
+                이대로 공유하면 올바르게 추론한 학생도 오답 처리될 수 있어요.
+              </p>
+            )}
+            <label className="flex items-center gap-2 text-sm text-red-800 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={acceptRange}
+                onChange={(e) => setAcceptRange(e.target.checked)}
+                className="rounded border-red-300 text-red-600 focus:ring-red-500"
+              />
+              범위 안의 개수는 모두 정답 처리
+              {!analysis.exact && (
+                <span className="text-xs text-red-600">({analysis.minBound}개부터)</span>
+              )}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-red-800 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showNumbers}
+                onChange={(e) => setShowNumbers(e.target.checked)}
+                className="rounded border-red-300 text-red-600 focus:ring-red-500"
+              />
+              보기에 숫자 힌트 추가 (개수가 하나로 정해져요)
+            </label>
+          </div>
+        )}
+
         {/* Timer Setting */}
         <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
           <div className="flex items-center gap-2 mb-2">
@@ -290,7 +411,11 @@ export const ShareModal: React.FC<ShareModalProps> = ({
 
         {/* Info */}
         <div className="text-xs text-gray-400 text-center space-y-1">
-          <p>링크를 열면 2D 투영 뷰만 보이고, 3D 모델은 정답 후에 공개됩니다.</p>
+          <p>
+            {QUESTION_TYPES[questionType].stimulus === 'views'
+              ? '링크를 열면 2D 투영 뷰만 보이고, 3D 모델은 정답 후에 공개됩니다.'
+              : '링크를 열면 3D 모델을 보며 문제를 풀고, 풀이는 정답 후에 공개됩니다.'}
+          </p>
           {timer > 0 && (
             <p className="text-amber-600">
               ⏱️ 제한 시간 {timer}초가 적용됩니다.
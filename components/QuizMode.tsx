@@ -1,28 +1,87 @@
-import React, { useState, useMemo, useEffect, useCallback } from 'react';
-import { Voxel } from '../types';
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import { Voxel, GridDimensions, QuestionType, QuizAnswer, ViewDirection } from '../types';
 import { Grid2D } from './Grid2D';
-import { project3DTo2D } from '../utils/voxelEngine';
-import { ArrowLeftRight, HelpCircle, Send, Clock } from 'lucide-react';
+import { CubeStage } from './CubeStage';
+import { IsometricView } from './IsometricView';
+import { project3DTo2D, projectView, generateFrontViewNumbers, compareProjections, isInBounds, BLUEPRINT_VIEW_OF } from '../utils/voxelEngine';
+import { QUESTION_TYPES, createTopViewChoices } from '../utils/questionTypes';
+import { VIEWS, getViewNumbers, getViewColors } from '../utils/views';
+import { HINTS, HINT_PENALTY, MAX_SCORE, getHintLadder, getTopRowHint, getLayerHint } from '../utils/hints';
+import { COLORS, DEFAULT_VIEWS } from '../constants';
+import { HelpCircle, Send, Clock, Lightbulb, Check, X, Plus, Eraser } from 'lucide-react';
 
 interface QuizModeProps {
   voxels: Voxel[];
-  onSubmit: (answer: number) => void;
+  dimensions: GridDimensions;
+  onSubmit: (answer: QuizAnswer, elapsedSeconds: number, hintsUsed: number) => void;
   timeLimit: number; // in seconds, 0 = no limit
+  showNumbers?: boolean; // Teacher-enabled view number hints
+  views?: ViewDirection[]; // Teacher-chosen views, in display order
+  colorViews?: boolean; // Fill cells with the color of the visible block
+  questionType?: QuestionType;
+  progress?: { current: number; total: number }; // Position within a quiz set (1-based)
 }
 
-export const QuizMode: React.FC<QuizModeProps> = ({ voxels, onSubmit, timeLimit }) => {
+// Badge colors by silhouette: top/bottom, front/back, left/right
+const VIEW_BADGE_COLORS: Record<ViewDirection, string> = {
+  top: 'bg-indigo-100 text-indigo-600',
+  bottom: 'bg-indigo-100 text-indigo-600',
+  front: 'bg-pink-100 text-pink-600',
+  back: 'bg-pink-100 text-pink-600',
+  left: 'bg-emerald-100 text-emerald-600',
+  right: 'bg-emerald-100 text-emerald-600'
+};
+
+export const QuizMode: React.FC<QuizModeProps> = ({ voxels, dimensions, onSubmit, timeLimit, showNumbers = false, views = DEFAULT_VIEWS, colorViews = false, questionType = 'count', progress }) => {
+  const question = QUESTION_TYPES[questionType];
   const [answer, setAnswer] = useState<string>('');
-  const [sideViewDirection, setSideViewDirection] = useState<'right' | 'left'>('right');
+  const [choice, setChoice] = useState<number | null>(null);
+  const [gridAnswer, setGridAnswer] = useState<string[][]>(() =>
+    Array(dimensions.depth).fill(null).map(() => Array(dimensions.width).fill(''))
+  );
+  const [builtVoxels, setBuiltVoxels] = useState<Voxel[]>([]);
+  const [buildTool, setBuildTool] = useState<'build' | 'erase'>('build');
   const [remainingTime, setRemainingTime] = useState<number>(timeLimit);
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const startTimeRef = useRef(Date.now());
+  const hintsUsedRef = useRef(0); // Read on submit without restarting the timer
+
+  // Hints unlock one at a time, each costing HINT_PENALTY points
+  const hintLadder = getHintLadder(showNumbers, questionType);
+  const unlockedHints = hintLadder.slice(0, hintsUsed);
+  const nextHint = hintLadder[hintsUsed];
+  const topRowHint = useMemo(() => getTopRowHint(voxels, dimensions), [voxels, dimensions]);
+  const layerHint = useMemo(() => getLayerHint(voxels), [voxels]);
+
+  const handleUnlockHint = () => {
+    hintsUsedRef.current += 1;
+    setHintsUsed(hintsUsedRef.current);
+  };
+
+  // Options for the multiple-choice question
+  const topViewChoices = useMemo(
+    () => (question.answerKind === 'choice' ? createTopViewChoices(voxels, dimensions).choices : []),
+    [question.answerKind, voxels, dimensions]
+  );
 
   // Calculate 2D projections from voxels
-  const projections = useMemo(() => project3DTo2D(voxels), [voxels]);
+  const projections = useMemo(() => project3DTo2D(voxels, dimensions), [voxels, dimensions]);
+
+  // Live check of the student's build against each target view
+  const viewMatch = useMemo(
+    () => (question.answerKind === 'build' ? compareProjections(voxels, builtVoxels, dimensions) : null),
+    [question.answerKind, voxels, builtVoxels, dimensions]
+  );
 
-  // Handle side view flip for left direction
-  const displaySideData = sideViewDirection === 'left'
-    ? projections.side.map(row => [...row].reverse())
-    : projections.side;
+  // The teacher's views, with optional number hints (Top: Height, others: Depth)
+  const shownViews = useMemo(() => views.map(direction => ({
+    direction,
+    data: projectView(voxels, dimensions, direction).filled,
+    numbers: getViewNumbers(voxels, dimensions, direction),
+    colors: colorViews ? getViewColors(voxels, dimensions, direction) : undefined
+  })), [views, colorViews, voxels, dimensions]);
+  const frontViewNumbers = useMemo(() => generateFrontViewNumbers(voxels, dimensions), [voxels, dimensions]);
 
   // Format time as MM:SS
   const formatTime = (seconds: number): string => {
@@ -39,21 +98,73 @@ export const QuizMode: React.FC<QuizModeProps> = ({ voxels, onSubmit, timeLimit
   };
 
   // Submit handler
-  const handleSubmit = useCallback((submittedAnswer: number) => {
+  const handleSubmit = useCallback((submittedAnswer: QuizAnswer) => {
     if (isSubmitted) return;
     setIsSubmitted(true);
-    onSubmit(submittedAnswer);
+    onSubmit(submittedAnswer, Math.round((Date.now() - startTimeRef.current) / 1000), hintsUsedRef.current);
   }, [isSubmitted, onSubmit]);
 
   // Form submit
+  const minAnswer = question.minAnswer ?? 1;
+  const numAnswer = parseInt(answer, 10);
+  const canSubmit = !isSubmitted && (
+    question.answerKind === 'number' ? !isNaN(numAnswer) && numAnswer >= minAnswer
+      : question.answerKind === 'choice' ? choice !== null
+        : question.answerKind === 'build' ? builtVoxels.length > 0
+          : true
+  );
+
   const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const numAnswer = parseInt(answer, 10);
-    if (!isNaN(numAnswer) && numAnswer > 0) {
+    if (!canSubmit) return;
+    if (question.answerKind === 'number') {
       handleSubmit(numAnswer);
+    } else if (question.answerKind === 'choice') {
+      handleSubmit(choice);
+    } else if (question.answerKind === 'build') {
+      handleSubmit(builtVoxels);
+    } else {
+      handleSubmit(gridAnswer.map(row => row.map(cell => {
+        const n = parseInt(cell, 10);
+        return isNaN(n) || n <= 0 ? null : n;
+      })));
     }
   };
 
+  const handleGridCellChange = (row: number, col: number, value: string) => {
+    setGridAnswer(prev => prev.map((cells, r) => r === row
+      ? cells.map((cell, c) => (c === col ? value.replace(/\D/g, '').slice(0, 1) : cell))
+      : cells
+    ));
+  };
+
+  // Build-it stage: the active tool decides whether a click adds or removes
+  const handleBuildAdd = (x: number, y: number, z: number) => {
+    if (isSubmitted || buildTool !== 'build' || !isInBounds(x, y, z, dimensions)) return;
+    setBuiltVoxels(prev => prev.some(v => v.x === x && v.y === y && v.z === z)
+      ? prev
+      : [...prev, { x, y, z, id: `${x},${y},${z}`, color: COLORS.voxelDefault }]
+    );
+  };
+
+  const handleBuildRemove = (id: string) => {
+    if (isSubmitted || buildTool !== 'erase') return;
+    setBuiltVoxels(prev => prev.filter(v => v.id !== id));
+  };
+
+  // Badge next to a target view while building
+  const renderMatchBadge = (matches: boolean | undefined) => {
+    if (matches === undefined) return null;
+    return (
+      <span className={`ml-auto flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold ${
+        matches ? 'bg-emerald-100 text-emerald-700' : 'bg-gray-100 text-gray-500'
+      }`}>
+        {matches ? <Check size={12} /> : <X size={12} />}
+        {matches ? '일치' : '불일치'}
+      </span>
+    );
+  };
+
   // Timer countdown effect
   useEffect(() => {
     if (timeLimit <= 0 || isSubmitted) return;
@@ -62,8 +173,8 @@ export const QuizMode: React.FC<QuizModeProps> = ({ voxels, onSubmit, timeLimit
       setRemainingTime(prev => {
         if (prev <= 1) {
           clearInterval(timer);
-          // Auto-submit with 0 when time runs out
-          handleSubmit(0);
+          // Auto-submit without an answer when time runs out
+          handleSubmit(null);
           return 0;
         }
         return prev - 1;
@@ -81,7 +192,7 @@ export const QuizMode: React.FC<QuizModeProps> = ({ voxels, onSubmit, timeLimit
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
               <HelpCircle size={24} />
-              <h1 className="text-xl md:text-2xl font-bold">블록 개수 맞추기</h1>
+              <h1 className="text-xl md:text-2xl font-bold">{question.title}</h1>
             </div>
 
             {/* Timer Display */}
@@ -93,8 +204,27 @@ export const QuizMode: React.FC<QuizModeProps> = ({ voxels, onSubmit, timeLimit
             )}
           </div>
           <p className="text-indigo-100 text-sm mt-2">
-            아래 3가지 방향에서 본 모습을 보고 블록 개수를 맞춰보세요!
+            {question.answerKind === 'build'
+              ? `아래 ${views.length}가지 방향에서 본 모습과 똑같아지도록 블록을 쌓아보세요!`
+              : question.stimulus === 'views'
+              ? `아래 ${views.length}가지 방향에서 본 모습을 보고 블록 개수를 맞춰보세요!`
+              : '3D 모델을 돌려 보며 문제를 풀어보세요!'}
           </p>
+
+          {/* Quiz Set Progress */}
+          {progress && (
+            <div className="mt-3">
+              <div className="flex justify-between text-xs text-indigo-100 mb-1">
+                <span>문제 {progress.current} / {progress.total}</span>
+              </div>
+              <div className="h-2 bg-white/20 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-white rounded-full transition-all duration-300"
+                  style={{ width: `${((progress.current - 1) / progress.total) * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -105,99 +235,236 @@ export const QuizMode: React.FC<QuizModeProps> = ({ voxels, onSubmit, timeLimit
         </div>
       )}
 
+      {/* 3D Model */}
+      {question.stimulus === 'model' && (
+        <div className="relative h-72 md:h-96 bg-gradient-to-br from-sky-50 to-indigo-50/50">
+          <CubeStage
+            voxels={voxels}
+            dimensions={dimensions}
+            mode="3d-edit"
+            onAddVoxel={() => {}}
+            onRemoveVoxel={() => {}}
+            showXRay={false}
+            selectedColor={COLORS.voxelDefault}
+          />
+          <div className="absolute bottom-3 left-1/2 -translate-x-1/2 bg-white/80 backdrop-blur px-4 py-1.5 rounded-full text-xs text-gray-600 shadow-sm pointer-events-none select-none">
+            드래그하여 회전 • 스크롤하여 확대/축소
+          </div>
+        </div>
+      )}
+
       {/* 2D Views Grid */}
-      <div className="bg-gradient-to-br from-sky-50 to-indigo-50/50 p-4 md:p-6">
-        <div className="max-w-2xl mx-auto space-y-4 md:space-y-6">
-
-          {/* Top View */}
-          <div className="bg-white p-4 rounded-xl shadow-md">
-            <h3 className="text-sm font-bold text-gray-700 mb-3 flex items-center gap-2">
-              <span className="bg-indigo-100 text-indigo-600 px-2 py-1 rounded text-xs font-semibold">위</span>
-              Top View (Above)
-            </h3>
-            <div className="flex justify-center">
-              <Grid2D
-                label=""
-                data={projections.top}
-                editable={false}
-                xAxisLabel="X (Right)"
-                yAxisLabel="Z (Depth)"
+      {question.stimulus === 'views' && (
+        <div className="bg-gradient-to-br from-sky-50 to-indigo-50/50 p-4 md:p-6">
+          <div className="max-w-2xl mx-auto grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+
+            {shownViews.map(({ direction, data, numbers, colors }) => (
+              <div
+                key={direction}
+                className={`bg-white p-4 rounded-xl shadow-md ${direction === 'top' || direction === 'bottom' ? 'md:col-span-2' : ''}`}
+              >
+                <h3 className="text-sm font-bold text-gray-700 mb-3 flex items-center gap-2">
+                  <span className={`${VIEW_BADGE_COLORS[direction]} px-2 py-1 rounded text-xs font-semibold`}>{VIEWS[direction].short}</span>
+                  {VIEWS[direction].label}
+                  {renderMatchBadge(viewMatch?.[BLUEPRINT_VIEW_OF[direction]])}
+                </h3>
+                <div className="flex justify-center">
+                  <Grid2D
+                    label=""
+                    data={data}
+                    editable={false}
+                    numbers={showNumbers ? numbers : undefined}
+                    colors={colors}
+                    xAxisLabel={VIEWS[direction].xAxisLabel}
+                    yAxisLabel={VIEWS[direction].yAxisLabel}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Hints */}
+      <div className="bg-amber-50/60 border-t border-amber-100 p-4">
+        <div className="max-w-2xl mx-auto space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-1 text-sm font-semibold text-amber-700">
+              <Lightbulb size={16} /> 힌트
+              <span className="font-normal text-xs text-amber-600">
+                (하나에 {HINT_PENALTY}점 감점 · 지금 {MAX_SCORE - hintsUsed * HINT_PENALTY}점)
+              </span>
+            </span>
+            {nextHint && (
+              <button
+                type="button"
+                onClick={handleUnlockHint}
+                disabled={isSubmitted}
+                className="px-3 py-1.5 bg-amber-500 text-white rounded-lg text-xs font-medium hover:bg-amber-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+              >
+                {HINTS[nextHint].label} 보기
+              </button>
+            )}
+          </div>
+
+          {unlockedHints.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-3">
+              {unlockedHints.map(kind => (
+                <div key={kind} className="bg-white p-3 rounded-xl shadow-sm">
+                  <p className="text-xs text-gray-500 mb-2 max-w-[14rem]">{HINTS[kind].description}</p>
+                  <div className="flex justify-center">
+                    {kind === 'top-row' && (
+                      <Grid2D
+                        label="Top View (위)"
+                        data={projections.top}
+                        editable={false}
+                        numbers={topRowHint}
+                      />
+                    )}
+                    {kind === 'layer' && (
+                      <div className="text-center">
+                        <IsometricView voxels={layerHint.voxels} size={120} />
+                        <div className="text-xs font-medium text-gray-600">{layerHint.layer + 1}층</div>
+                      </div>
+                    )}
+                    {kind === 'front-depth' && (
+                      <Grid2D
+                        label="Front View (앞)"
+                        data={projections.front}
+                        editable={false}
+                        numbers={frontViewNumbers}
+                      />
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Answer Input */}
+      <div className="bg-white border-t border-gray-200 p-4 md:p-6 shadow-lg">
+        <form onSubmit={handleFormSubmit} className={`${question.answerKind === 'choice' ? 'max-w-2xl' : 'max-w-md'} mx-auto`}>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {question.prompt}
+          </label>
+
+          {question.answerKind === 'number' && (
+            <div className="flex gap-3">
+              <input
+                type="number"
+                value={answer}
+                onChange={(e) => setAnswer(e.target.value)}
+                placeholder="숫자 입력"
+                min={minAnswer}
+                disabled={isSubmitted}
+                className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none text-lg font-medium text-center disabled:bg-gray-100 disabled:cursor-not-allowed"
+                autoFocus
               />
+              <button
+                type="submit"
+                disabled={!canSubmit}
+                className="px-6 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+              >
+                <Send size={18} />
+                제출
+              </button>
             </div>
-          </div>
+          )}
 
-          {/* Front and Side Views */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* Front View */}
-            <div className="bg-white p-4 rounded-xl shadow-md">
-              <h3 className="text-sm font-bold text-gray-700 mb-3 flex items-center gap-2">
-                <span className="bg-pink-100 text-pink-600 px-2 py-1 rounded text-xs font-semibold">앞</span>
-                Front View
-              </h3>
-              <div className="flex justify-center">
-                <Grid2D
-                  label=""
-                  data={projections.front}
-                  editable={false}
-                  xAxisLabel="X (Right)"
-                  yAxisLabel="Y (Up)"
-                />
+          {question.answerKind === 'choice' && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {topViewChoices.map((grid, index) => (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => setChoice(index)}
+                  disabled={isSubmitted}
+                  className={`rounded-xl border-2 p-1 transition-colors ${
+                    choice === index ? 'border-indigo-500 bg-indigo-50' : 'border-transparent hover:border-indigo-200'
+                  }`}
+                >
+                  <Grid2D label={`${index + 1}번`} data={grid} editable={false} />
+                </button>
+              ))}
+            </div>
+          )}
+
+          {question.answerKind === 'grid' && (
+            <div className="flex flex-col items-center gap-1">
+              <div
+                className="grid gap-1 bg-gray-200 p-1 rounded"
+                style={{ gridTemplateColumns: `repeat(${dimensions.width}, 1fr)` }}
+              >
+                {gridAnswer.map((cells, row) => cells.map((cell, col) => (
+                  <input
+                    key={`${row}-${col}`}
+                    type="text"
+                    inputMode="numeric"
+                    value={cell}
+                    onChange={(e) => handleGridCellChange(row, col, e.target.value)}
+                    disabled={isSubmitted}
+                    className={`w-10 h-10 rounded-sm text-center font-bold outline-none focus:ring-2 focus:ring-indigo-500 ${
+                      cell ? 'bg-indigo-500 text-white' : 'bg-white text-gray-700'
+                    }`}
+                  />
+                )))}
+              </div>
+              <div className="flex justify-between w-full max-w-[14rem] text-[10px] text-gray-400 px-1">
+                <span>X (Right)</span>
+                <span>앞쪽이 아래</span>
               </div>
             </div>
+          )}
 
-            {/* Side View */}
-            <div className="bg-white p-4 rounded-xl shadow-md">
-              <h3 className="text-sm font-bold text-gray-700 mb-3 flex items-center gap-2">
-                <span className="bg-emerald-100 text-emerald-600 px-2 py-1 rounded text-xs font-semibold">옆</span>
-                Side View ({sideViewDirection === 'right' ? 'Right' : 'Left'})
+          {question.answerKind === 'build' && (
+            <div className="relative h-72 md:h-96 rounded-xl overflow-hidden border border-gray-200 bg-gradient-to-br from-sky-50 to-indigo-50/50">
+              <CubeStage
+                voxels={builtVoxels}
+                dimensions={dimensions}
+                mode="3d-edit"
+                onAddVoxel={handleBuildAdd}
+                onRemoveVoxel={handleBuildRemove}
+                showXRay={false}
+                selectedColor={COLORS.voxelDefault}
+              />
+              <div className="absolute top-3 left-3 flex bg-white/90 backdrop-blur rounded-lg shadow-sm p-1 gap-1">
                 <button
-                  onClick={() => setSideViewDirection(prev => prev === 'right' ? 'left' : 'right')}
-                  className="ml-auto p-1 hover:bg-gray-100 rounded text-indigo-600 transition-colors"
-                  title="Switch Side View (Right/Left)"
+                  type="button"
+                  onClick={() => setBuildTool('build')}
+                  className={`flex items-center gap-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                    buildTool === 'build' ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
                 >
-                  <ArrowLeftRight size={14} />
+                  <Plus size={14} /> 쌓기
                 </button>
-              </h3>
-              <div className="flex justify-center">
-                <Grid2D
-                  label=""
-                  data={displaySideData}
-                  editable={false}
-                  xAxisLabel={sideViewDirection === 'right' ? "Z (Depth)" : "Z (Reversed)"}
-                  yAxisLabel="Y (Up)"
-                />
+                <button
+                  type="button"
+                  onClick={() => setBuildTool('erase')}
+                  className={`flex items-center gap-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                    buildTool === 'erase' ? 'bg-red-500 text-white' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  <Eraser size={14} /> 지우기
+                </button>
+              </div>
+              <div className="absolute top-3 right-3 bg-white/90 backdrop-blur px-3 py-1.5 rounded-lg shadow-sm text-xs font-medium text-gray-700">
+                블록 {builtVoxels.length}개
               </div>
             </div>
-          </div>
-        </div>
-      </div>
+          )}
 
-      {/* Answer Input */}
-      <div className="bg-white border-t border-gray-200 p-4 md:p-6 shadow-lg">
-        <form onSubmit={handleFormSubmit} className="max-w-md mx-auto">
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            블록은 총 몇 개일까요?
-          </label>
-          <div className="flex gap-3">
-            <input
-              type="number"
-              value={answer}
-              onChange={(e) => setAnswer(e.target.value)}
-              placeholder="숫자 입력"
-              min="1"
-              disabled={isSubmitted}
-              className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none text-lg font-medium text-center disabled:bg-gray-100 disabled:cursor-not-allowed"
-              autoFocus
-            />
+          {question.answerKind !== 'number' && (
             <button
               type="submit"
-              disabled={!answer || parseInt(answer, 10) <= 0 || isSubmitted}
-              className="px-6 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+              disabled={!canSubmit}
+              className="w-full mt-4 px-6 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
             >
               <Send size={18} />
               제출
             </button>
-          </div>
+          )}
         </form>
       </div>
     </div>
@@ -1,44 +1,60 @@
 import React, { useMemo } from 'react';
-import { Voxel } from '../types';
+import { Voxel, GridDimensions, QuestionType, ViewDirection } from '../types';
 import { CubeStage } from './CubeStage';
 import { Grid2D } from './Grid2D';
-import { project3DTo2D, generateTopViewNumbers, generateFrontViewNumbers, generateSideViewNumbers } from '../utils/voxelEngine';
-import { ArrowLeftRight, Box, RotateCcw, Share2, Layers, CheckCircle, XCircle, Hash } from 'lucide-react';
+import { ViewPicker } from './ViewPicker';
+import { project3DTo2D, projectView, solveProjections } from '../utils/voxelEngine';
+import { QUESTION_TYPES } from '../utils/questionTypes';
+import { VIEWS, getViewNumbers, getViewColors } from '../utils/views';
+import { PaintBucket, Box, RotateCcw, Share2, Layers, CheckCircle, XCircle, Hash, Lightbulb, Ticket } from 'lucide-react';
 import { COLORS } from '../constants';
 
 interface QuizResultProps {
   voxels: Voxel[];
-  correctAnswer: number;
-  userAnswer: number;
+  dimensions: GridDimensions;
+  questionType: QuestionType;
+  views: ViewDirection[]; // Views the quiz showed; more can be picked here
+  colorViews: boolean; // Whether the quiz showed block colors
+  correctText: string; // Formatted correct answer
+  userText: string; // Formatted student answer
   isCorrect: boolean;
+  hintsUsed: number;
+  score: number; // After hint penalties
   onNewQuiz: () => void;
   onShare: () => void;
+  onShowResultCode: () => void;
 }
 
 export const QuizResult: React.FC<QuizResultProps> = ({
   voxels,
-  correctAnswer,
-  userAnswer,
+  dimensions,
+  questionType,
+  views: quizViews,
+  colorViews: quizColorViews,
+  correctText,
+  userText,
   isCorrect,
+  hintsUsed,
+  score,
   onNewQuiz,
-  onShare
+  onShare,
+  onShowResultCode
 }) => {
-  const [sideViewDirection, setSideViewDirection] = React.useState<'right' | 'left'>('right');
+  const [views, setViews] = React.useState<ViewDirection[]>(quizViews);
   const [showNumbers, setShowNumbers] = React.useState(true);
+  const [showColors, setShowColors] = React.useState(quizColorViews);
 
   // Calculate projections and numbers
-  const projections = useMemo(() => project3DTo2D(voxels), [voxels]);
-  const topViewNumbers = useMemo(() => generateTopViewNumbers(voxels), [voxels]);
-  const frontViewNumbers = useMemo(() => generateFrontViewNumbers(voxels), [voxels]);
-  const sideViewNumbers = useMemo(() => generateSideViewNumbers(voxels), [voxels]);
+  const projections = useMemo(() => project3DTo2D(voxels, dimensions), [voxels, dimensions]);
 
-  // Handle side view flip
-  const displaySideData = sideViewDirection === 'left'
-    ? projections.side.map(row => [...row].reverse())
-    : projections.side;
-  const displaySideNumbers = sideViewDirection === 'left'
-    ? sideViewNumbers.map(row => [...row].reverse())
-    : sideViewNumbers;
+  // Range of block counts that produce the same three views
+  const solution = useMemo(() => solveProjections(projections, dimensions), [projections, dimensions]);
+  const isAmbiguous = questionType === 'count' && solution.consistent && solution.min !== solution.max;
+
+  // Type-specific explanation and highlighted blocks
+  const question = QUESTION_TYPES[questionType];
+  const explanation = useMemo(() => question.explain(voxels, dimensions), [question, voxels, dimensions]);
+  const highlightIds = useMemo(() => question.getHighlightIds?.(voxels), [question, voxels]);
 
   return (
     <div className="flex flex-col h-full w-full">
@@ -58,9 +74,12 @@ export const QuizResult: React.FC<QuizResultProps> = ({
               <p className="text-white/80 text-sm">
                 {isCorrect
                   ? '멋지게 맞추셨네요!'
-                  : `입력하신 답: ${userAnswer}개`
+                  : `입력하신 답: ${userText}`
                 }
               </p>
+              <p className="text-white/80 text-xs mt-0.5">
+                점수 {score}점{hintsUsed > 0 && ` · 힌트 ${hintsUsed}개 사용`}
+              </p>
             </div>
           </div>
 
@@ -69,7 +88,7 @@ export const QuizResult: React.FC<QuizResultProps> = ({
               <div className="text-xs text-white/70">정답</div>
               <div className="text-2xl font-bold flex items-center gap-1">
                 <Layers size={20} />
-                {correctAnswer}개
+                {correctText}
               </div>
             </div>
 
@@ -82,6 +101,14 @@ export const QuizResult: React.FC<QuizResultProps> = ({
                 <RotateCcw size={16} />
                 <span className="hidden sm:inline">새 퀴즈</span>
               </button>
+              <button
+                onClick={onShowResultCode}
+                className="flex items-center gap-2 px-4 py-2 bg-white/20 hover:bg-white/30 text-white rounded-lg transition-colors font-medium text-sm"
+                title="선생님께 보낼 결과 코드"
+              >
+                <Ticket size={16} />
+                <span className="hidden sm:inline">결과 코드</span>
+              </button>
               <button
                 onClick={onShare}
                 className="p-2 bg-white/20 hover:bg-white/30 text-white rounded-lg transition-colors"
@@ -98,19 +125,34 @@ export const QuizResult: React.FC<QuizResultProps> = ({
       <div className="flex-1 relative bg-gradient-to-br from-sky-50 to-indigo-50/50">
         <CubeStage
           voxels={voxels}
+          dimensions={dimensions}
           mode="3d-edit"
           onAddVoxel={() => {}}
           onRemoveVoxel={() => {}}
           showXRay={false}
           selectedColor={COLORS.voxelDefault}
+          highlightIds={highlightIds}
         />
 
         {/* Info Overlay */}
         <div className="absolute top-4 left-4 bg-white/90 backdrop-blur px-4 py-2 rounded-lg shadow-sm">
           <div className="text-xs text-gray-500">블록 수</div>
           <div className="text-xl font-bold text-indigo-600 flex items-center gap-1">
-            <Box size={18} /> {correctAnswer}개
+            <Box size={18} /> {voxels.length}개
           </div>
+          {isAmbiguous && (
+            <div className="mt-1 max-w-[200px] text-xs text-gray-500">
+              세 방향 모습만으로는 {solution.exact ? '' : '약 '}{solution.min}개 ~ {solution.max}개까지 만들 수 있어요.
+            </div>
+          )}
+        </div>
+
+        {/* Explanation */}
+        <div className="absolute top-4 right-4 max-w-xs bg-white/90 backdrop-blur px-4 py-3 rounded-lg shadow-sm">
+          <div className="flex items-center gap-1 text-xs font-semibold text-amber-600 mb-1">
+            <Lightbulb size={14} /> 풀이
+          </div>
+          <p className="text-sm text-gray-700">{explanation}</p>
         </div>
 
         {/* Rotation Hint */}
@@ -135,55 +177,36 @@ export const QuizResult: React.FC<QuizResultProps> = ({
               <Hash size={14} />
               숫자 표시
             </label>
-            <button
-              onClick={() => setSideViewDirection(prev => prev === 'right' ? 'left' : 'right')}
-              className="flex items-center gap-1 px-2 py-1 text-sm text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
-              title="Switch Side View (Right/Left)"
-            >
-              <ArrowLeftRight size={14} />
-              Side: {sideViewDirection === 'right' ? 'Right' : 'Left'}
-            </button>
+            <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showColors}
+                onChange={(e) => setShowColors(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <PaintBucket size={14} />
+              색 표시
+            </label>
+            <ViewPicker views={views} onChange={setViews} compact />
           </div>
         </div>
 
         {/* Horizontal Scrolling Views */}
         <div className="overflow-x-auto">
           <div className="flex gap-4 p-4 min-w-max">
-            {/* Top View */}
-            <div className="flex-shrink-0">
-              <Grid2D
-                label="Top View (위)"
-                data={projections.top}
-                editable={false}
-                numbers={showNumbers ? topViewNumbers : undefined}
-                xAxisLabel="X (Right)"
-                yAxisLabel="Z (Depth)"
-              />
-            </div>
-
-            {/* Front View */}
-            <div className="flex-shrink-0">
-              <Grid2D
-                label="Front View (앞)"
-                data={projections.front}
-                editable={false}
-                numbers={showNumbers ? frontViewNumbers : undefined}
-                xAxisLabel="X (Right)"
-                yAxisLabel="Y (Up)"
-              />
-            </div>
-
-            {/* Side View */}
-            <div className="flex-shrink-0">
-              <Grid2D
-                label={`Side View (${sideViewDirection === 'right' ? '오른쪽' : '왼쪽'})`}
-                data={displaySideData}
-                editable={false}
-                numbers={showNumbers ? displaySideNumbers : undefined}
-                xAxisLabel={sideViewDirection === 'right' ? "Z (Depth)" : "Z (Reversed)"}
-                yAxisLabel="Y (Up)"
-              />
-            </div>
+            {views.map(direction => (
+              <div key={direction} className="flex-shrink-0">
+                <Grid2D
+                  label={`${VIEWS[direction].label} (${VIEWS[direction].short})`}
+                  data={projectView(voxels, dimensions, direction).filled}
+                  editable={false}
+                  numbers={showNumbers ? getViewNumbers(voxels, dimensions, direction) : undefined}
+                  colors={showColors ? getViewColors(voxels, dimensions, direction) : undefined}
+                  xAxisLabel={VIEWS[direction].xAxisLabel}
+                  yAxisLabel={VIEWS[direction].yAxisLabel}
+                />
+              </div>
+            ))}
           </div>
         </div>
       </div>
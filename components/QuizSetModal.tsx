@@ -0,0 +1,328 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, ArrowUp, ArrowDown, Trash2, Copy, Check, Play, QrCode, AlertTriangle } from 'lucide-react';
+import QRCode from 'react-qr-code';
+import { Modal } from './Modal';
+import { IsometricView } from './IsometricView';
+import { ViewPicker } from './ViewPicker';
+import { Voxel, GridDimensions, SavedStructure, QuestionType, QuizSetItem, ViewDirection } from '../types';
+import { DEFAULT_QUIZ_OPTIONS, DEFAULT_VIEWS } from '../constants';
+import { QUESTION_TYPES, QUESTION_TYPE_ORDER } from '../utils/questionTypes';
+import { project3DTo2D, solveProjections } from '../utils/voxelEngine';
+import { generateQuizSetUrl } from '../utils/shareUtils';
+
+interface QuizSetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  libraryItems: SavedStructure[];
+  currentVoxels: Voxel[];
+  currentDimensions: GridDimensions;
+  onPlay: (items: QuizSetItem[]) => void;
+}
+
+interface SetEntry {
+  key: number;
+  name: string;
+  voxels: Voxel[];
+  dimensions: GridDimensions;
+  questionType: QuestionType;
+  showNumbers: boolean;
+  exactCount: boolean;
+  views: ViewDirection[];
+  colorViews: boolean;
+  timeLimit: number;
+  ambiguous: boolean; // Block count does not follow from the three views
+}
+
+const DEFAULT_TIME_LIMIT = 60;
+
+let nextEntryKey = 0;
+
+const createEntry = (name: string, voxels: Voxel[], dimensions: GridDimensions): SetEntry => {
+  const solution = solveProjections(project3DTo2D(voxels, dimensions), dimensions);
+  return {
+    key: nextEntryKey++,
+    name,
+    voxels,
+    dimensions,
+    questionType: 'count',
+    showNumbers: false,
+    exactCount: false,
+    views: DEFAULT_VIEWS,
+    colorViews: false,
+    timeLimit: DEFAULT_TIME_LIMIT,
+    ambiguous: solution.consistent && solution.min !== solution.max
+  };
+};
+
+export const QuizSetModal: React.FC<QuizSetModalProps> = ({
+  isOpen,
+  onClose,
+  libraryItems,
+  currentVoxels,
+  currentDimensions,
+  onPlay
+}) => {
+  const [entries, setEntries] = useState<SetEntry[]>([]);
+  const [libraryChoice, setLibraryChoice] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [showQr, setShowQr] = useState(false);
+
+  // Reset state when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setEntries([]);
+      setLibraryChoice('');
+      setCopied(false);
+      setShowQr(false);
+    }
+  }, [isOpen]);
+
+  const items: QuizSetItem[] = useMemo(() => entries.map(entry => ({
+    voxels: entry.voxels,
+    dimensions: entry.dimensions,
+    options: {
+      ...DEFAULT_QUIZ_OPTIONS,
+      questionType: entry.questionType,
+      showNumbers: entry.questionType === 'count' && entry.showNumbers,
+      exactCount: entry.questionType === 'build' && entry.exactCount,
+      views: entry.views,
+      colorViews: QUESTION_TYPES[entry.questionType].stimulus === 'views' && entry.colorViews
+    },
+    timeLimit: entry.timeLimit
+  })), [entries]);
+
+  const shareUrl = useMemo(() => (items.length > 0 ? generateQuizSetUrl(items) : ''), [items]);
+
+  const addEntry = (entry: SetEntry) => setEntries(prev => [...prev, entry]);
+
+  const handleAddCurrent = () => {
+    addEntry(createEntry('현재 구조물', currentVoxels, currentDimensions));
+  };
+
+  const handleAddFromLibrary = () => {
+    const item = libraryItems.find(i => i.id === libraryChoice);
+    if (item) addEntry(createEntry(item.name, item.voxels, item.dimensions));
+  };
+
+  const updateEntry = (key: number, changes: Partial<SetEntry>) => {
+    setEntries(prev => prev.map(entry => (entry.key === key ? { ...entry, ...changes } : entry)));
+  };
+
+  const moveEntry = (index: number, delta: number) => {
+    setEntries(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="퀴즈 세트 만들기" wide>
+      <div className="space-y-4">
+        {/* Add Questions */}
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleAddCurrent}
+            disabled={currentVoxels.length === 0}
+            className="flex items-center gap-2 px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+          >
+            <Plus size={16} />
+            현재 구조물 추가
+          </button>
+          <div className="flex flex-1 min-w-[200px] gap-2">
+            <select
+              value={libraryChoice}
+              onChange={(e) => setLibraryChoice(e.target.value)}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+            >
+              <option value="">내 구조물에서 고르기</option>
+              {libraryItems.filter(item => item.voxels.length > 0).map(item => (
+                <option key={item.id} value={item.id}>{item.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAddFromLibrary}
+              disabled={!libraryChoice}
+              className="flex items-center gap-1 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Plus size={16} />
+              추가
+            </button>
+          </div>
+        </div>
+
+        {/* Question List */}
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-6">
+            문제를 추가해 주세요.
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {entries.map((entry, index) => (
+              <li key={entry.key} className="flex gap-3 p-2 border border-gray-200 rounded-xl">
+                <div className="shrink-0 bg-sky-50 rounded-lg p-1">
+                  <IsometricView voxels={entry.voxels} size={56} />
+                </div>
+                <div className="flex-1 min-w-0 space-y-1.5">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-bold text-gray-800">{index + 1}.</span>
+                    <span className="text-sm text-gray-700 truncate">{entry.name}</span>
+                    <div className="ml-auto flex gap-0.5">
+                      <button
+                        onClick={() => moveEntry(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded disabled:opacity-30"
+                        title="위로"
+                      >
+                        <ArrowUp size={14} />
+                      </button>
+                      <button
+                        onClick={() => moveEntry(index, 1)}
+                        disabled={index === entries.length - 1}
+                        className="p-1 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded disabled:opacity-30"
+                        title="아래로"
+                      >
+                        <ArrowDown size={14} />
+                      </button>
+                      <button
+                        onClick={() => setEntries(prev => prev.filter(e => e.key !== entry.key))}
+                        className="p-1 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded"
+                        title="빼기"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+                    <select
+                      value={entry.questionType}
+                      onChange={(e) => updateEntry(entry.key, { questionType: e.target.value as QuestionType })}
+                      className="px-2 py-1 border border-gray-300 rounded bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                    >
+                      {QUESTION_TYPE_ORDER.map(type => (
+                        <option key={type} value={type}>{QUESTION_TYPES[type].label}</option>
+                      ))}
+                    </select>
+                    <label className="flex items-center gap-1">
+                      <input
+                        type="number"
+                        value={entry.timeLimit}
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value, 10);
+                          if (!isNaN(value) && value >= 0) updateEntry(entry.key, { timeLimit: value });
+                        }}
+                        min="0"
+                        max="3600"
+                        className="w-16 px-2 py-1 border border-gray-300 rounded text-center focus:ring-2 focus:ring-indigo-500 outline-none"
+                      />
+                      초
+                    </label>
+                    {entry.questionType === 'build' && (
+                      <label className="flex items-center gap-1 cursor-pointer" title="출제한 모양과 블록 개수까지 같아야 정답">
+                        <input
+                          type="checkbox"
+                          checked={entry.exactCount}
+                          onChange={(e) => updateEntry(entry.key, { exactCount: e.target.checked })}
+                          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        개수까지 맞추기
+                      </label>
+                    )}
+                    {QUESTION_TYPES[entry.questionType].stimulus === 'views' && (
+                      <>
+                        <ViewPicker
+                          views={entry.views}
+                          onChange={(views) => updateEntry(entry.key, { views })}
+                          compact
+                        />
+                        <label className="flex items-center gap-1 cursor-pointer" title="보이는 블록의 색으로 그리기">
+                          <input
+                            type="checkbox"
+                            checked={entry.colorViews}
+                            onChange={(e) => updateEntry(entry.key, { colorViews: e.target.checked })}
+                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                          />
+                          색
+                        </label>
+                      </>
+                    )}
+                    {entry.questionType === 'count' && entry.ambiguous && (
+                      <label className="flex items-center gap-1 text-red-600 cursor-pointer" title="세 방향 모습만으로는 개수가 하나로 정해지지 않아요">
+                        <AlertTriangle size={12} />
+                        <input
+                          type="checkbox"
+                          checked={entry.showNumbers}
+                          onChange={(e) => updateEntry(entry.key, { showNumbers: e.target.checked })}
+                          className="rounded border-red-300 text-red-600 focus:ring-red-500"
+                        />
+                        숫자 힌트
+                      </label>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {/* Share */}
+        {entries.length > 0 && (
+          <div className="space-y-3 border-t border-gray-100 pt-4">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={shareUrl}
+                readOnly
+                className="flex-1 min-w-0 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-600 overflow-hidden text-ellipsis"
+              />
+              <button
+                onClick={handleCopy}
+                className={`flex items-center gap-1 px-4 py-2 rounded-lg font-medium transition-colors ${
+                  copied
+                    ? 'bg-emerald-100 text-emerald-700'
+                    : 'bg-indigo-600 text-white hover:bg-indigo-700'
+                }`}
+              >
+                {copied ? <Check size={16} /> : <Copy size={16} />}
+                {copied ? '복사됨!' : '복사'}
+              </button>
+              <button
+                onClick={() => setShowQr(prev => !prev)}
+                className={`p-2 rounded-lg transition-colors ${showQr ? 'bg-indigo-100 text-indigo-600' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                title="QR 코드"
+              >
+                <QrCode size={18} />
+              </button>
+            </div>
+
+            {showQr && (
+              <div className="flex justify-center p-4 bg-white border border-gray-200 rounded-lg">
+                <QRCode value={shareUrl} size={200} level="M" />
+              </div>
+            )}
+
+            <button
+              onClick={() => onPlay(items)}
+              className="w-full flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-6 rounded-xl transition-colors"
+            >
+              <Play size={18} />
+              바로 풀어보기 ({entries.length}문제)
+            </button>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,117 @@
+import React from 'react';
+import { CheckCircle, XCircle, Clock, RotateCcw, Trophy, Home, Ticket } from 'lucide-react';
+import { IsometricView } from './IsometricView';
+import { QuizSetItem, QuizSetResult } from '../types';
+import { QUESTION_TYPES } from '../utils/questionTypes';
+import { getQuizSetScore } from '../utils/hints';
+
+interface QuizSetSummaryProps {
+  items: QuizSetItem[];
+  results: QuizSetResult[];
+  onRetry: () => void;
+  onExit: () => void;
+  onShowResultCode: () => void;
+}
+
+// Seconds as "1분 05초" / "42초"
+const formatDuration = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return mins > 0 ? `${mins}분 ${secs.toString().padStart(2, '0')}초` : `${secs}초`;
+};
+
+export const QuizSetSummary: React.FC<QuizSetSummaryProps> = ({ items, results, onRetry, onExit, onShowResultCode }) => {
+  const correctCount = results.filter(r => r.isCorrect).length;
+  const totalSeconds = results.reduce((sum, r) => sum + r.elapsedSeconds, 0);
+  const totalHints = results.reduce((sum, r) => sum + r.hintsUsed, 0);
+  const score = getQuizSetScore(results);
+
+  return (
+    <div className="flex flex-col w-full overflow-y-auto">
+      {/* Score Header */}
+      <div className="bg-gradient-to-r from-indigo-600 to-purple-600 text-white p-4 md:p-6">
+        <div className="max-w-2xl mx-auto flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Trophy size={32} className="text-amber-300" />
+            <div>
+              <h1 className="text-xl md:text-2xl font-bold">
+                {items.length}문제 중 {correctCount}문제 정답
+              </h1>
+              <p className="text-indigo-100 text-sm flex items-center gap-1">
+                <Clock size={14} /> 걸린 시간 {formatDuration(totalSeconds)}
+                <span className="mx-1">·</span>
+                점수 {score}점{totalHints > 0 && ` (힌트 ${totalHints}개)`}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onShowResultCode}
+              className="flex items-center gap-2 px-4 py-2 bg-white/20 hover:bg-white/30 text-white rounded-lg transition-colors font-medium text-sm"
+              title="선생님께 보낼 결과 코드"
+            >
+              <Ticket size={16} />
+              <span className="hidden sm:inline">결과 코드</span>
+            </button>
+            <button
+              onClick={onRetry}
+              className="flex items-center gap-2 px-4 py-2 bg-white/20 hover:bg-white/30 text-white rounded-lg transition-colors font-medium text-sm"
+            >
+              <RotateCcw size={16} />
+              <span className="hidden sm:inline">다시 풀기</span>
+            </button>
+            <button
+              onClick={onExit}
+              className="flex items-center gap-2 px-4 py-2 bg-white/20 hover:bg-white/30 text-white rounded-lg transition-colors font-medium text-sm"
+            >
+              <Home size={16} />
+              <span className="hidden sm:inline">처음으로</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Per-question Results */}
+      <div className="bg-gradient-to-br from-sky-50 to-indigo-50/50 p-4 md:p-6 flex-1">
+        <ul className="max-w-2xl mx-auto space-y-3">
+          {items.map((item, index) => {
+            const result = results[index];
+            const question = QUESTION_TYPES[item.options.questionType];
+            return (
+              <li key={index} className="flex gap-3 bg-white p-3 rounded-xl shadow-sm">
+                <div className="shrink-0 bg-sky-50 rounded-lg p-1">
+                  <IsometricView voxels={item.voxels} size={64} />
+                </div>
+                <div className="flex-1 min-w-0 text-sm">
+                  <div className="flex items-center gap-2">
+                    {result?.isCorrect ? (
+                      <CheckCircle size={18} className="text-emerald-500 shrink-0" />
+                    ) : (
+                      <XCircle size={18} className="text-red-500 shrink-0" />
+                    )}
+                    <span className="font-bold text-gray-800">{index + 1}번</span>
+                    <span className="text-xs text-gray-500">{question.label}</span>
+                    {result && result.hintsUsed > 0 && (
+                      <span className="text-xs text-amber-600">힌트 {result.hintsUsed}개</span>
+                    )}
+                    {result && (
+                      <span className="ml-auto text-xs text-gray-400 flex items-center gap-1">
+                        <Clock size={12} /> {formatDuration(result.elapsedSeconds)}
+                      </span>
+                    )}
+                  </div>
+                  <div className="mt-1 text-gray-600">
+                    내 답: <span className="font-medium">{result ? question.formatAnswer(result.answer, item.voxels, item.dimensions, item.options) : '-'}</span>
+                    <span className="mx-2 text-gray-300">|</span>
+                    정답: <span className="font-medium text-indigo-600">{question.formatCorrect(item.voxels, item.dimensions, item.options)}</span>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">{question.explain(item.voxels, item.dimensions)}</p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Copy, Check } from 'lucide-react';
+import QRCode from 'react-qr-code';
+import { Modal } from './Modal';
+import { ResultRecord, createResultCode } from '../utils/resultCodes';
+import { loadStudentName, saveStudentName } from '../utils/storage';
+
+interface ResultCodeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  record: Omit<ResultRecord, 'name'>; // Everything except the student's name
+}
+
+export const ResultCodeModal: React.FC<ResultCodeModalProps> = ({ isOpen, onClose, record }) => {
+  const [name, setName] = useState(loadStudentName);
+  const [copied, setCopied] = useState(false);
+
+  // Reset state when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setCopied(false);
+    }
+  }, [isOpen]);
+
+  const code = useMemo(
+    () => (name.trim() ? createResultCode({ ...record, name }) : ''),
+    [record, name]
+  );
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    saveStudentName(value);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="결과 코드">
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">이름</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => handleNameChange(e.target.value)}
+            placeholder="이름 (예: 3번 김민지)"
+            maxLength={20}
+            autoFocus
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+          />
+        </div>
+
+        {code ? (
+          <>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={code}
+                readOnly
+                className="flex-1 min-w-0 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm font-mono text-gray-600"
+              />
+              <button
+                onClick={handleCopy}
+                className={`flex items-center gap-1 px-4 py-2 rounded-lg font-medium transition-colors ${
+                  copied
+                    ? 'bg-emerald-100 text-emerald-700'
+                    : 'bg-indigo-600 text-white hover:bg-indigo-700'
+                }`}
+              >
+                {copied ? <Check size={16} /> : <Copy size={16} />}
+                {copied ? '복사됨!' : '복사'}
+              </button>
+            </div>
+            <div className="flex justify-center p-4 bg-white border border-gray-200 rounded-lg">
+              <QRCode value={code} size={180} level="M" />
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-gray-400 text-center py-4">
+            이름을 입력하면 결과 코드가 만들어져요.
+          </p>
+        )}
+
+        <p className="text-xs text-gray-400 text-center">
+          코드를 선생님께 보내거나 QR 코드를 보여주세요. 코드를 고치면 확인할 수 없게 돼요.
+        </p>
+      </div>
+    </Modal>
+  );
+};
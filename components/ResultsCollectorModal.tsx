@@ -0,0 +1,216 @@
+import React, { useMemo, useState } from 'react';
+import { Plus, Upload, Download, Trash2, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { Modal } from './Modal';
+import { ResultRecord, parseResultCodes, resultsToCsv, getResultTypeLabel } from '../utils/resultCodes';
+import { downloadBlob } from '../utils/exportUtils';
+
+interface ResultsCollectorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface CollectedResult {
+  code: string;
+  record: ResultRecord;
+}
+
+const ALL_PUZZLES = '';
+
+const formatTime = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString('ko-KR', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export const ResultsCollectorModal: React.FC<ResultsCollectorModalProps> = ({ isOpen, onClose }) => {
+  // Kept while the app is open so the modal can be closed and reopened
+  const [results, setResults] = useState<CollectedResult[]>([]);
+  const [input, setInput] = useState('');
+  const [invalidCodes, setInvalidCodes] = useState<string[]>([]);
+  const [puzzleFilter, setPuzzleFilter] = useState(ALL_PUZZLES);
+
+  const addCodes = (text: string) => {
+    const { records, invalid } = parseResultCodes(text);
+    setResults(prev => {
+      const known = new Set(prev.map(r => r.code));
+      const fresh = records.filter(r => {
+        if (known.has(r.code)) return false;
+        known.add(r.code);
+        return true;
+      });
+      return [...prev, ...fresh];
+    });
+    setInvalidCodes(invalid);
+  };
+
+  const handleAdd = () => {
+    addCodes(input);
+    setInput('');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    const texts = await Promise.all(files.map(file => file.text()));
+    addCodes(texts.join('\n'));
+  };
+
+  const puzzleIds = useMemo(
+    () => [...new Set(results.map(r => r.record.puzzleId))],
+    [results]
+  );
+
+  const visible = useMemo(
+    () => results
+      .filter(r => puzzleFilter === ALL_PUZZLES || r.record.puzzleId === puzzleFilter)
+      .sort((a, b) => a.record.puzzleId.localeCompare(b.record.puzzleId) || a.record.name.localeCompare(b.record.name, 'ko')),
+    [results, puzzleFilter]
+  );
+
+  const totalQuestions = visible.reduce((sum, r) => sum + r.record.questionCount, 0);
+  const totalCorrect = visible.reduce((sum, r) => sum + r.record.correctCount, 0);
+  const averageScore = visible.length > 0
+    ? Math.round(visible.reduce((sum, r) => sum + r.record.score, 0) / visible.length)
+    : 0;
+
+  const handleExport = () => {
+    const csv = resultsToCsv(visible.map(r => r.record));
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), 'cube-master-results.csv');
+  };
+
+  const handleClear = () => {
+    if (confirm('모은 결과를 모두 지울까요?')) {
+      setResults([]);
+      setInvalidCodes([]);
+      setPuzzleFilter(ALL_PUZZLES);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="결과 수집" wide>
+      <div className="space-y-4">
+        {/* Input */}
+        <div className="space-y-2">
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="학생들이 보낸 결과 코드(CM-...)를 붙여넣으세요. 여러 개는 줄을 바꿔 입력합니다."
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none resize-none"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleAdd}
+              disabled={!input.trim()}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              <Plus size={16} />
+              코드 추가
+            </button>
+            <label className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors cursor-pointer">
+              <Upload size={16} />
+              파일에서 불러오기
+              <input type="file" accept=".txt,.csv" multiple onChange={handleFileChange} className="hidden" />
+            </label>
+          </div>
+        </div>
+
+        {invalidCodes.length > 0 && (
+          <div className="flex items-start gap-2 bg-red-50 border border-red-200 rounded-lg p-2 text-xs text-red-700">
+            <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+            <span>
+              확인할 수 없는 코드 {invalidCodes.length}개를 건너뛰었어요. (잘못 복사했거나 내용이 바뀐 코드)
+            </span>
+          </div>
+        )}
+
+        {/* Class Table */}
+        {results.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-6">
+            아직 모은 결과가 없습니다.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                value={puzzleFilter}
+                onChange={(e) => setPuzzleFilter(e.target.value)}
+                className="px-2 py-1.5 border border-gray-300 rounded-lg bg-white text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+              >
+                <option value={ALL_PUZZLES}>모든 문제</option>
+                {puzzleIds.map(id => <option key={id} value={id}>문제 {id}</option>)}
+              </select>
+              <span className="text-gray-500">
+                {visible.length}명 · 정답률 {totalQuestions > 0 ? Math.round((totalCorrect / totalQuestions) * 100) : 0}% · 평균 {averageScore}점
+              </span>
+              <div className="ml-auto flex gap-1">
+                <button
+                  onClick={handleExport}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors"
+                >
+                  <Download size={14} />
+                  CSV
+                </button>
+                <button
+                  onClick={handleClear}
+                  className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title="모두 지우기"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-xs text-gray-500">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">이름</th>
+                    <th className="px-3 py-2 text-left font-medium">문제</th>
+                    <th className="px-3 py-2 text-left font-medium">답</th>
+                    <th className="px-3 py-2 text-center font-medium">결과</th>
+                    <th className="px-3 py-2 text-right font-medium">점수</th>
+                    <th className="px-3 py-2 text-right font-medium">시간</th>
+                    <th className="px-3 py-2 text-right font-medium">제출</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {visible.map(({ code, record }) => (
+                    <tr key={code}>
+                      <td className="px-3 py-2 font-medium text-gray-800">{record.name}</td>
+                      <td className="px-3 py-2 text-gray-500">
+                        <div className="font-mono text-xs">{record.puzzleId}</div>
+                        <div className="text-xs">{getResultTypeLabel(record.questionType)}</div>
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">{record.answer}</td>
+                      <td className="px-3 py-2 text-center">
+                        {record.questionCount > 1 ? (
+                          <span className="font-medium text-indigo-600">{record.correctCount}/{record.questionCount}</span>
+                        ) : record.correctCount > 0 ? (
+                          <CheckCircle size={16} className="inline text-emerald-500" />
+                        ) : (
+                          <XCircle size={16} className="inline text-red-500" />
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <div className="font-medium text-gray-800">{Math.round(record.score)}점</div>
+                        {record.hintsUsed > 0 && (
+                          <div className="text-xs text-amber-600">힌트 {record.hintsUsed}개</div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-500">{record.elapsedSeconds}초</td>
+                      <td className="px-3 py-2 text-right text-xs text-gray-400">{formatTime(record.completedAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
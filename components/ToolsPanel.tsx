@@ -1,10 +1,19 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Trash2, PlusSquare, Eraser, Cuboid, RefreshCw, Eye, Hash, Palette, GripVertical } from 'lucide-react';
-import { VOXEL_COLORS } from '../constants';
+import { Trash2, PlusSquare, Eraser, Cuboid, RefreshCw, Eye, Hash, PaintBucket, Palette, GripVertical, Undo2, Redo2, Anchor, BoxSelect, PencilLine, ArrowUpFromLine, Expand, ChevronsUp, ChevronsDown } from 'lucide-react';
+import { VOXEL_COLORS, MIN_DIMENSION, MAX_DIMENSION } from '../constants';
+import { GridDimensions, EditorTool } from '../types';
+import { BlueprintFill, StructureTransform } from '../utils/voxelEngine';
+import { TransformControls } from './TransformControls';
 
 interface ToolsPanelProps {
-  tool: 'build' | 'erase';
-  setTool: (t: 'build' | 'erase') => void;
+  tool: EditorTool;
+  setTool: (t: EditorTool) => void;
+  bulkHeight: number; // Box thickness and column height
+  setBulkHeight: (h: number) => void;
+  onExtrude: (direction: 1 | -1) => void;
+  canExtrude: boolean; // A face is selected
+  onTransform: (t: StructureTransform) => void;
+  canTransform: (t: StructureTransform) => boolean;
   onClear: () => void;
   mode: '3d-edit' | '2d-blueprint';
   setMode: (m: '3d-edit' | '2d-blueprint') => void;
@@ -12,9 +21,24 @@ interface ToolsPanelProps {
   setShowXRay: (x: boolean) => void;
   showNumbers: boolean;
   setShowNumbers: (x: boolean) => void;
+  showColors: boolean;
+  setShowColors: (x: boolean) => void;
+  physicalMode: boolean;
+  setPhysicalMode: (x: boolean) => void;
   selectedColor: string;
   setSelectedColor: (c: string) => void;
   onGenerate?: () => void;
+  blueprintKind: 'views' | 'heights';
+  setBlueprintKind: (k: 'views' | 'heights') => void;
+  blueprintFill: BlueprintFill;
+  setBlueprintFill: (f: BlueprintFill) => void;
+  blueprintRange: { min: number; max: number; exact: boolean } | null; // Null when the views don't fit together
+  dimensions: GridDimensions;
+  setDimensions: (d: GridDimensions) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 interface Position {
@@ -30,6 +54,12 @@ interface Size {
 export const ToolsPanel: React.FC<ToolsPanelProps> = ({
   tool,
   setTool,
+  bulkHeight,
+  setBulkHeight,
+  onExtrude,
+  canExtrude,
+  onTransform,
+  canTransform,
   onClear,
   mode,
   setMode,
@@ -37,9 +67,24 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
   setShowXRay,
   showNumbers,
   setShowNumbers,
+  showColors,
+  setShowColors,
+  physicalMode,
+  setPhysicalMode,
   selectedColor,
   setSelectedColor,
-  onGenerate
+  onGenerate,
+  blueprintKind,
+  setBlueprintKind,
+  blueprintFill,
+  setBlueprintFill,
+  blueprintRange,
+  dimensions,
+  setDimensions,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo
 }) => {
   const [position, setPosition] = useState<Position>({ x: 0, y: 0 });
   const [size, setSize] = useState<Size | null>(null);
@@ -219,6 +264,32 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
           </div>
         </div>
 
+        {/* Grid Size */}
+        <div className="flex flex-col gap-2 w-full">
+          <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider hidden md:block">Grid Size</span>
+          <div className="flex gap-2">
+            {([
+              ['width', 'W'],
+              ['depth', 'D'],
+              ['height', 'H']
+            ] as const).map(([key, label]) => (
+              <label key={key} className="flex-1 flex items-center gap-1 text-xs font-medium text-gray-500">
+                {label}
+                <select
+                  value={dimensions[key]}
+                  onChange={(e) => setDimensions({ ...dimensions, [key]: parseInt(e.target.value, 10) })}
+                  className="flex-1 px-1 py-1 border border-gray-200 rounded-md text-sm text-gray-700 bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                  title={`Grid ${key}`}
+                >
+                  {Array.from({ length: MAX_DIMENSION - MIN_DIMENSION + 1 }, (_, i) => MIN_DIMENSION + i).map((n) => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+
         <div className="h-px bg-gray-200 w-full hidden md:block"></div>
 
         {mode === '3d-edit' ? (
@@ -244,11 +315,111 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
                 <span className="font-medium hidden md:inline">Remove</span>
               </button>
             </div>
+            <div className="grid grid-cols-4 md:grid-cols-2 gap-1 w-full">
+              {([
+                ['box', 'Box', BoxSelect, 'Drag across the floor or a face to fill a box'],
+                ['line', 'Line', PencilLine, 'Click two cells to draw a line of blocks'],
+                ['column', 'Column', ArrowUpFromLine, 'Click a cell to set its column height'],
+                ['extrude', 'Extrude', Expand, 'Click a face, then push it out or in']
+              ] as const).map(([value, label, Icon, title]) => (
+                <button
+                  key={value}
+                  onClick={() => setTool(value)}
+                  className={`flex items-center justify-center gap-1.5 p-2 rounded-lg text-xs font-medium transition-colors ${tool === value ? 'bg-indigo-50 text-indigo-700 border border-indigo-200' : 'border border-transparent text-gray-600 hover:bg-gray-50'}`}
+                  title={title}
+                >
+                  <Icon size={14} />
+                  <span className="hidden md:inline">{label}</span>
+                </button>
+              ))}
+            </div>
+            {(tool === 'box' || tool === 'column') && (
+              <label className="flex items-center justify-between gap-2 w-full text-xs font-medium text-gray-500">
+                {tool === 'box' ? 'Thickness' : 'Column Height'}
+                <input
+                  type="number"
+                  value={bulkHeight}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (!isNaN(value)) setBulkHeight(Math.max(tool === 'box' ? 1 : 0, Math.min(dimensions.height, value)));
+                  }}
+                  min={tool === 'box' ? 1 : 0}
+                  max={dimensions.height}
+                  className="w-16 px-2 py-1 border border-gray-200 rounded-md text-sm text-gray-700 text-center focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+              </label>
+            )}
+            {tool === 'extrude' && (
+              <div className="flex gap-2 w-full">
+                <button
+                  onClick={() => onExtrude(1)}
+                  disabled={!canExtrude}
+                  className="flex-1 flex items-center justify-center gap-1 p-2 rounded-lg text-xs font-medium bg-white text-gray-600 border border-gray-200 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                  title="Add a layer of blocks on the selected face"
+                >
+                  <ChevronsUp size={14} /> Out
+                </button>
+                <button
+                  onClick={() => onExtrude(-1)}
+                  disabled={!canExtrude}
+                  className="flex-1 flex items-center justify-center gap-1 p-2 rounded-lg text-xs font-medium bg-white text-gray-600 border border-gray-200 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                  title="Remove the blocks behind the selected face"
+                >
+                  <ChevronsDown size={14} /> In
+                </button>
+              </div>
+            )}
+            <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider hidden md:block">Transform</span>
+            <div className="w-full min-w-[220px] md:min-w-0">
+              <TransformControls onTransform={onTransform} canTransform={canTransform} />
+            </div>
           </>
         ) : (
           <div className="flex flex-col w-full gap-2">
+            <div className="flex bg-gray-100 p-1 rounded-lg w-full">
+              {([
+                ['views', 'Views', 'Draw the Top, Front, and Side silhouettes'],
+                ['heights', 'Heights', 'Type a column height into each Top View cell']
+              ] as const).map(([value, label, title]) => (
+                <button
+                  key={value}
+                  onClick={() => setBlueprintKind(value)}
+                  className={`flex-1 p-1.5 rounded-md text-xs font-medium transition-colors ${blueprintKind === value ? 'bg-white text-pink-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                  title={title}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
             <p className="text-xs text-gray-500 bg-blue-50 p-2 rounded border border-blue-100 hidden md:block">
-              Fill in the Top, Front, and Side grids to generate a 3D shape automatically.
+              {blueprintKind === 'heights'
+                ? 'Set a height for each Top View cell. Front and Side views follow automatically.'
+                : 'Fill in the Top, Front, and Side grids to generate a 3D shape automatically.'}
+            </p>
+            {blueprintKind === 'views' && (
+              <div className="flex bg-gray-100 p-1 rounded-lg w-full">
+                {([
+                  ['max', 'Max', 'Most blocks (Max Fill)'],
+                  ['min', 'Min', 'Fewest blocks with the same views'],
+                  ['random', 'Random', 'A random valid structure in between']
+                ] as const).map(([value, label, title]) => (
+                  <button
+                    key={value}
+                    onClick={() => setBlueprintFill(value)}
+                    className={`flex-1 p-1.5 rounded-md text-xs font-medium transition-colors ${blueprintFill === value ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                    title={title}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-gray-500 text-center">
+              {!blueprintRange
+                ? 'Views do not match yet'
+                : blueprintRange.min === blueprintRange.max
+                  ? `${blueprintRange.min} blocks`
+                  : `${blueprintRange.exact ? '' : '~'}${blueprintRange.min}–${blueprintRange.max} blocks possible`}
             </p>
             <button
               onClick={onGenerate}
@@ -274,7 +445,7 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
               key={color}
               onClick={() => {
                 setSelectedColor(color);
-                if (mode === '3d-edit') setTool('build');
+                if (mode === '3d-edit' && tool === 'erase') setTool('build');
               }}
               className={`w-full aspect-square rounded-full shadow-sm transition-transform hover:scale-110 border border-gray-200 ${selectedColor === color ? 'ring-2 ring-offset-1 ring-indigo-500 scale-110' : ''}`}
               style={{ backgroundColor: color }}
@@ -304,9 +475,48 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
             <span className="hidden md:inline">{showNumbers ? 'Numbers On' : 'Numbers Off'}</span>
           </button>
 
+          <button
+            onClick={() => setShowColors(!showColors)}
+            className={`flex items-center justify-center p-2 rounded-lg text-sm font-medium w-full transition-colors ${showColors ? 'bg-pink-50 text-pink-700 border border-pink-200' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'}`}
+            title="Show the color of the visible block in each 2D cell"
+          >
+            <PaintBucket size={16} className="md:mr-2" />
+            <span className="hidden md:inline">{showColors ? 'Colors On' : 'Colors Off'}</span>
+          </button>
+
+          <button
+            onClick={() => setPhysicalMode(!physicalMode)}
+            className={`flex items-center justify-center p-2 rounded-lg text-sm font-medium w-full transition-colors ${physicalMode ? 'bg-sky-50 text-sky-700 border border-sky-200' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'}`}
+            title="Only allow blocks that rest on the floor or another block"
+          >
+            <Anchor size={16} className="md:mr-2" />
+            <span className="hidden md:inline">{physicalMode ? 'Physical On' : 'Physical Off'}</span>
+          </button>
+
+          <div className="flex gap-2 w-full mt-2">
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              className="flex-1 flex items-center justify-center p-2 rounded-lg text-sm font-medium bg-white text-gray-600 border border-gray-200 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 size={16} className="md:mr-2" />
+              <span className="hidden md:inline">Undo</span>
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              className="flex-1 flex items-center justify-center p-2 rounded-lg text-sm font-medium bg-white text-gray-600 border border-gray-200 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 size={16} className="md:mr-2" />
+              <span className="hidden md:inline">Redo</span>
+            </button>
+          </div>
+
           <button
             onClick={onClear}
-            className="flex items-center justify-center p-2 rounded-lg text-sm font-medium text-red-600 border border-red-200 hover:bg-red-50 w-full transition-colors mt-2"
+            className="flex items-center justify-center p-2 rounded-lg text-sm font-medium text-red-600 border border-red-200 hover:bg-red-50 w-full transition-colors"
           >
             <Trash2 size={16} className="md:mr-2" />
             <span className="hidden md:inline">Clear All</span>
@@ -0,0 +1,61 @@
+import React from 'react';
+import { RotateCcw, RotateCw, CornerRightUp, CornerRightDown, CornerUpLeft, CornerUpRight, FlipHorizontal2, FlipVertical2, ArrowLeft, ArrowRight, ArrowUp, ArrowDown, ChevronsUp, ChevronsDown, LucideIcon } from 'lucide-react';
+import { StructureTransform } from '../utils/voxelEngine';
+
+interface TransformControlsProps {
+  onTransform: (transform: StructureTransform) => void;
+  canTransform: (transform: StructureTransform) => boolean; // False when it would not fit the grid
+}
+
+type TransformButton = [StructureTransform, LucideIcon, string];
+
+const ROTATE_BUTTONS: TransformButton[] = [
+  [{ kind: 'rotate', axis: 'y', direction: 1 }, RotateCcw, 'Turn left (around the vertical axis)'],
+  [{ kind: 'rotate', axis: 'y', direction: -1 }, RotateCw, 'Turn right (around the vertical axis)'],
+  [{ kind: 'rotate', axis: 'x', direction: -1 }, CornerRightUp, 'Tip over toward the back (around X)'],
+  [{ kind: 'rotate', axis: 'x', direction: 1 }, CornerRightDown, 'Tip over toward the front (around X)'],
+  [{ kind: 'rotate', axis: 'z', direction: 1 }, CornerUpLeft, 'Tip over to the left (around Z)'],
+  [{ kind: 'rotate', axis: 'z', direction: -1 }, CornerUpRight, 'Tip over to the right (around Z)']
+];
+
+const MIRROR_BUTTONS: TransformButton[] = [
+  [{ kind: 'mirror', axis: 'x' }, FlipHorizontal2, 'Mirror left to right (across X)'],
+  [{ kind: 'mirror', axis: 'z' }, FlipVertical2, 'Mirror front to back (across Z)']
+];
+
+const MOVE_BUTTONS: TransformButton[] = [
+  [{ kind: 'translate', offset: [-1, 0, 0] }, ArrowLeft, 'Move one cell toward -X'],
+  [{ kind: 'translate', offset: [1, 0, 0] }, ArrowRight, 'Move one cell toward +X'],
+  [{ kind: 'translate', offset: [0, 0, -1] }, ArrowUp, 'Move one cell toward the back (-Z)'],
+  [{ kind: 'translate', offset: [0, 0, 1] }, ArrowDown, 'Move one cell toward the front (+Z)'],
+  [{ kind: 'translate', offset: [0, 1, 0] }, ChevronsUp, 'Lift one layer'],
+  [{ kind: 'translate', offset: [0, -1, 0] }, ChevronsDown, 'Lower one layer']
+];
+
+// Rotate / mirror / move buttons for the whole structure
+export const TransformControls: React.FC<TransformControlsProps> = ({ onTransform, canTransform }) => {
+  const renderRow = (buttons: TransformButton[], label: string) => (
+    <div className="flex items-center gap-1">
+      <span className="w-12 shrink-0 text-[10px] font-medium text-gray-400">{label}</span>
+      {buttons.map(([transform, Icon, title]) => (
+        <button
+          key={title}
+          onClick={() => onTransform(transform)}
+          disabled={!canTransform(transform)}
+          className="flex-1 flex items-center justify-center p-1.5 rounded-md text-gray-600 border border-gray-200 hover:bg-gray-50 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+          title={title}
+        >
+          <Icon size={14} />
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-1 w-full">
+      {renderRow(ROTATE_BUTTONS, 'Rotate')}
+      {renderRow(MIRROR_BUTTONS, 'Mirror')}
+      {renderRow(MOVE_BUTTONS, 'Move')}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { ViewDirection } from '../types';
+import { VIEWS, VIEW_DIRECTIONS, toggleView } from '../utils/views';
+
+interface ViewPickerProps {
+  views: ViewDirection[];
+  onChange: (views: ViewDirection[]) => void;
+  compact?: boolean; // Smaller chips for toolbars
+}
+
+// Toggle chips for the six viewing directions; at least one stays selected
+export const ViewPicker: React.FC<ViewPickerProps> = ({ views, onChange, compact = false }) => {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {VIEW_DIRECTIONS.map(direction => {
+        const selected = views.includes(direction);
+        return (
+          <button
+            key={direction}
+            type="button"
+            onClick={() => onChange(toggleView(views, direction))}
+            aria-pressed={selected}
+            title={VIEWS[direction].label}
+            className={`${compact ? 'px-2 py-0.5 text-[11px]' : 'px-3 py-1 text-xs'} rounded-full font-medium border transition-colors ${
+              selected
+                ? 'bg-indigo-600 border-indigo-600 text-white'
+                : 'bg-white border-gray-300 text-gray-500 hover:border-indigo-300 hover:text-indigo-600'
+            }`}
+          >
+            {VIEWS[direction].short}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,284 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, ArrowUp, ArrowDown, Trash2, Dices, Printer, FileDown } from 'lucide-react';
+import { Modal } from './Modal';
+import { IsometricView } from './IsometricView';
+import { ViewPicker } from './ViewPicker';
+import { Voxel, GridDimensions, SavedStructure, ViewDirection } from '../types';
+import { DEFAULT_VIEWS } from '../constants';
+import { Difficulty, DIFFICULTY_PRESETS, generateDistinctPuzzle, createRandomSeed } from '../utils/puzzleGenerator';
+import { WorksheetProblem, layoutWorksheet, worksheetPageToSvg, worksheetToHtml, worksheetToPdf } from '../utils/worksheet';
+import { downloadBlob } from '../utils/exportUtils';
+
+interface WorksheetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  libraryItems: SavedStructure[];
+  currentVoxels: Voxel[];
+  currentDimensions: GridDimensions;
+}
+
+interface ProblemEntry extends WorksheetProblem {
+  key: number;
+}
+
+const DEFAULT_TITLE = '쌓기나무 학습지';
+
+let nextEntryKey = 0;
+
+const createEntry = (name: string, voxels: Voxel[], dimensions: GridDimensions): ProblemEntry => ({
+  key: nextEntryKey++,
+  name,
+  voxels,
+  dimensions
+});
+
+export const WorksheetModal: React.FC<WorksheetModalProps> = ({
+  isOpen,
+  onClose,
+  libraryItems,
+  currentVoxels,
+  currentDimensions
+}) => {
+  const [entries, setEntries] = useState<ProblemEntry[]>([]);
+  const [libraryChoice, setLibraryChoice] = useState('');
+  const [difficulty, setDifficulty] = useState<Difficulty>('easy');
+  const [title, setTitle] = useState(DEFAULT_TITLE);
+  const [views, setViews] = useState<ViewDirection[]>(DEFAULT_VIEWS);
+  const [showNumbers, setShowNumbers] = useState(false);
+  const [answerKey, setAnswerKey] = useState(true);
+
+  // Reset the problem list when modal opens; page options carry over
+  useEffect(() => {
+    if (isOpen) {
+      setEntries([]);
+      setLibraryChoice('');
+    }
+  }, [isOpen]);
+
+  const pages = useMemo(
+    () => layoutWorksheet(entries, { title: title.trim() || DEFAULT_TITLE, views, showNumbers, answerKey }),
+    [entries, title, views, showNumbers, answerKey]
+  );
+
+  const previews = useMemo(
+    () => pages.map(page => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(worksheetPageToSvg(page))}`),
+    [pages]
+  );
+
+  const fileName = (title.trim() || DEFAULT_TITLE).replace(/[\\/:*?"<>|]/g, '_');
+
+  const addEntry = (entry: ProblemEntry) => setEntries(prev => [...prev, entry]);
+
+  const handleAddCurrent = () => {
+    addEntry(createEntry('현재 구조물', currentVoxels, currentDimensions));
+  };
+
+  const handleAddFromLibrary = () => {
+    const item = libraryItems.find(i => i.id === libraryChoice);
+    if (item) addEntry(createEntry(item.name, item.voxels, item.dimensions));
+  };
+
+  const handleAddGenerated = () => {
+    // Skip shapes already on the sheet, even if turned around
+    const puzzle = generateDistinctPuzzle(difficulty, createRandomSeed(), entries.map(e => e.voxels));
+    addEntry(createEntry(`${DIFFICULTY_PRESETS[difficulty].label} #${puzzle.seed}`, puzzle.voxels, puzzle.dimensions));
+  };
+
+  const moveEntry = (index: number, delta: number) => {
+    setEntries(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handlePrint = () => {
+    const html = worksheetToHtml(pages, title.trim() || DEFAULT_TITLE, true);
+    const blob = new Blob([html], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+    const printWindow = window.open(url, '_blank');
+    if (!printWindow) {
+      // Pop-up blocked: save the page so it can be opened and printed by hand
+      downloadBlob(blob, `${fileName}.html`);
+    }
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const handleDownloadPdf = () => {
+    downloadBlob(worksheetToPdf(pages), `${fileName}.pdf`);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="학습지 만들기" wide>
+      <div className="space-y-4">
+        {/* Add Problems */}
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleAddCurrent}
+            disabled={currentVoxels.length === 0}
+            className="flex items-center gap-2 px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+          >
+            <Plus size={16} />
+            현재 구조물 추가
+          </button>
+          <div className="flex flex-1 min-w-[200px] gap-2">
+            <select
+              value={libraryChoice}
+              onChange={(e) => setLibraryChoice(e.target.value)}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+            >
+              <option value="">내 구조물에서 고르기</option>
+              {libraryItems.filter(item => item.voxels.length > 0).map(item => (
+                <option key={item.id} value={item.id}>{item.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAddFromLibrary}
+              disabled={!libraryChoice}
+              className="flex items-center gap-1 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Plus size={16} />
+              추가
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={difficulty}
+              onChange={(e) => setDifficulty(e.target.value as Difficulty)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+              title={DIFFICULTY_PRESETS[difficulty].description}
+            >
+              {(Object.keys(DIFFICULTY_PRESETS) as Difficulty[]).map(level => (
+                <option key={level} value={level}>{DIFFICULTY_PRESETS[level].label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAddGenerated}
+              className="flex items-center gap-1 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors"
+              title="새 문제를 자동으로 만들어 추가"
+            >
+              <Dices size={16} />
+              자동 출제
+            </button>
+          </div>
+        </div>
+
+        {/* Problem List */}
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-6">
+            문제를 추가해 주세요.
+          </p>
+        ) : (
+          <ol className="grid gap-2 sm:grid-cols-2">
+            {entries.map((entry, index) => (
+              <li key={entry.key} className="flex items-center gap-3 p-2 border border-gray-200 rounded-xl">
+                <div className="shrink-0 bg-sky-50 rounded-lg p-1">
+                  <IsometricView voxels={entry.voxels} size={48} />
+                </div>
+                <span className="text-sm font-bold text-gray-800">{index + 1}.</span>
+                <span className="flex-1 min-w-0 text-sm text-gray-700 truncate">{entry.name}</span>
+                <div className="flex gap-0.5">
+                  <button
+                    onClick={() => moveEntry(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded disabled:opacity-30"
+                    title="위로"
+                  >
+                    <ArrowUp size={14} />
+                  </button>
+                  <button
+                    onClick={() => moveEntry(index, 1)}
+                    disabled={index === entries.length - 1}
+                    className="p-1 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded disabled:opacity-30"
+                    title="아래로"
+                  >
+                    <ArrowDown size={14} />
+                  </button>
+                  <button
+                    onClick={() => setEntries(prev => prev.filter(e => e.key !== entry.key))}
+                    className="p-1 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded"
+                    title="빼기"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {/* Page Options */}
+        <div className="space-y-2 border-t border-gray-100 pt-4 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <span className="shrink-0 font-medium">제목</span>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={40}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+            />
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium">보여줄 모습</span>
+            <ViewPicker views={views} onChange={setViews} compact />
+          </div>
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showNumbers}
+                onChange={(e) => setShowNumbers(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              모습 칸에 숫자 쓰기
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={answerKey}
+                onChange={(e) => setAnswerKey(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              정답지 붙이기
+            </label>
+          </div>
+        </div>
+
+        {/* Preview & Output */}
+        {entries.length > 0 && (
+          <div className="space-y-3 border-t border-gray-100 pt-4">
+            <div className="flex gap-3 overflow-x-auto bg-gray-100 p-3 rounded-lg">
+              {previews.map((src, i) => (
+                <img
+                  key={i}
+                  src={src}
+                  alt={`${i + 1}쪽`}
+                  className="h-64 shrink-0 bg-white shadow-sm"
+                />
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={handlePrint}
+                className="flex-1 flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-xl transition-colors"
+              >
+                <Printer size={18} />
+                인쇄하기 ({pages.length}쪽)
+              </button>
+              <button
+                onClick={handleDownloadPdf}
+                className="flex-1 flex items-center justify-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-bold py-3 px-4 rounded-xl transition-colors"
+              >
+                <FileDown size={18} />
+                PDF 다운로드
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
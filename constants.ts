@@ -1,8 +1,20 @@
+import { GridDimensions, QuizShareOptions, ViewDirection } from './types';
 
 export const GRID_SIZE = 5;
 export const CUBE_SIZE = 1;
 export const MAX_HEIGHT = 5;
 
+// Grid dimensions used by new structures and by links without a size
+export const DEFAULT_DIMENSIONS: GridDimensions = {
+  width: GRID_SIZE,
+  depth: GRID_SIZE,
+  height: MAX_HEIGHT,
+};
+
+// Allowed range for each of width, depth and height
+export const MIN_DIMENSION = 1;
+export const MAX_DIMENSION = 8;
+
 // Block Color Palette
 export const VOXEL_COLORS = [
   '#F59E0B', // Original Ocher (Amber 500)
@@ -19,7 +31,21 @@ export const COLORS = {
   gridLine: '#CBD5E1', // Slate 300
   voxelDefault: VOXEL_COLORS[0], // Default is Ocher
   voxelOutline: '#000000',
+  warning: '#DC2626', // Red 600 (unsupported blocks)
   background: '#F0F9FF', // Sky 50
 };
 
+// Views shown when nothing else is chosen
+export const DEFAULT_VIEWS: ViewDirection[] = ['top', 'front', 'right'];
+
+// Share options for a plain "how many blocks" quiz
+export const DEFAULT_QUIZ_OPTIONS: QuizShareOptions = {
+  questionType: 'count',
+  acceptRange: null,
+  showNumbers: false,
+  exactCount: false,
+  views: DEFAULT_VIEWS,
+  colorViews: false,
+};
+
 export const INITIAL_VOXELS: any[] = []; // Start empty
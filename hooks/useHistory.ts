@@ -0,0 +1,113 @@
+import { useCallback, useReducer } from 'react';
+
+// Maximum number of undo steps kept in memory
+const HISTORY_LIMIT = 100;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // 'idle' outside a group, 'open' before its first change, 'recorded' after it
+  group: 'idle' | 'open' | 'recorded';
+}
+
+type HistoryAction<T> =
+  | { type: 'set'; updater: (prev: T) => T; record: boolean }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; value: T }
+  | { type: 'beginGroup' }
+  | { type: 'endGroup' };
+
+export interface SetOptions {
+  // When false, the present value is replaced without creating an undo step
+  record?: boolean;
+}
+
+const historyReducer = <T,>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+  switch (action.type) {
+    case 'set': {
+      const next = action.updater(state.present);
+      if (next === state.present) return state;
+      if (!action.record || state.group === 'recorded') {
+        return { ...state, present: next };
+      }
+      return {
+        past: [...state.past, state.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        group: state.group === 'open' ? 'recorded' : 'idle'
+      };
+    }
+    case 'undo': {
+      if (state.past.length === 0) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        group: 'idle'
+      };
+    }
+    case 'redo': {
+      if (state.future.length === 0) return state;
+      return {
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        group: 'idle'
+      };
+    }
+    case 'reset':
+      return { past: [], present: action.value, future: [], group: 'idle' };
+    case 'beginGroup':
+      return { ...state, group: 'open' };
+    case 'endGroup':
+      return state.group === 'idle' ? state : { ...state, group: 'idle' };
+    default:
+      return state;
+  }
+};
+
+/**
+ * Undo/redo history for a single immutable value.
+ * Every recorded `set` becomes one undo step. Changes made between
+ * `beginGroup()` and `endGroup()` are folded into a single step.
+ */
+export const useHistory = <T,>(initial: T | (() => T)) => {
+  const [state, dispatch] = useReducer(
+    historyReducer as (state: HistoryState<T>, action: HistoryAction<T>) => HistoryState<T>,
+    undefined,
+    () => ({
+      past: [],
+      present: typeof initial === 'function' ? (initial as () => T)() : initial,
+      future: [],
+      group: 'idle'
+    })
+  );
+
+  const set = useCallback((valueOrUpdater: T | ((prev: T) => T), options: SetOptions = {}) => {
+    const updater = typeof valueOrUpdater === 'function'
+      ? (valueOrUpdater as (prev: T) => T)
+      : () => valueOrUpdater;
+    dispatch({ type: 'set', updater, record: options.record ?? true });
+  }, []);
+
+  const beginGroup = useCallback(() => dispatch({ type: 'beginGroup' }), []);
+  const endGroup = useCallback(() => dispatch({ type: 'endGroup' }), []);
+
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+  const reset = useCallback((value: T) => dispatch({ type: 'reset', value }), []);
+
+  return {
+    present: state.present,
+    set,
+    undo,
+    redo,
+    reset,
+    beginGroup,
+    endGroup,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  };
+};
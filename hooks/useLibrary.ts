@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Voxel, GridDimensions, SavedStructure } from '../types';
+import { loadLibrary, saveLibrary, createStructureId } from '../utils/storage';
+
+/**
+ * "My structures" library backed by browser storage.
+ * Items are kept newest-first and persisted after every change.
+ */
+export const useLibrary = () => {
+  const [items, setItems] = useState<SavedStructure[]>(loadLibrary);
+  const [storageError, setStorageError] = useState(false);
+
+  useEffect(() => {
+    setStorageError(!saveLibrary(items));
+  }, [items]);
+
+  const save = useCallback((name: string, voxels: Voxel[], dimensions: GridDimensions): SavedStructure => {
+    const now = Date.now();
+    const item: SavedStructure = {
+      id: createStructureId(),
+      name,
+      voxels,
+      dimensions,
+      createdAt: now,
+      updatedAt: now
+    };
+    setItems(prev => [item, ...prev]);
+    return item;
+  }, []);
+
+  const rename = useCallback((id: string, name: string) => {
+    setItems(prev => prev.map(item =>
+      item.id === id ? { ...item, name, updatedAt: Date.now() } : item
+    ));
+  }, []);
+
+  const duplicate = useCallback((id: string) => {
+    setItems(prev => {
+      const source = prev.find(item => item.id === id);
+      if (!source) return prev;
+      const now = Date.now();
+      const copy: SavedStructure = {
+        ...source,
+        id: createStructureId(),
+        name: `${source.name} (사본)`,
+        createdAt: now,
+        updatedAt: now
+      };
+      return [copy, ...prev];
+    });
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  return { items, save, rename, duplicate, remove, storageError };
+};
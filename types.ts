@@ -9,14 +9,48 @@ export interface Voxel {
   color?: string;
 }
 
+// Size of the building area: X (width), Z (depth), Y (height)
+export interface GridDimensions {
+  width: number;
+  depth: number;
+  height: number;
+}
+
+// Directions a structure can be looked at from
+export type ViewDirection = 'top' | 'bottom' | 'front' | 'back' | 'left' | 'right';
+
 export interface GridState {
   top: boolean[][];
   front: boolean[][];
   side: boolean[][];
 }
 
+// A named structure in the "My structures" library
+export interface SavedStructure {
+  id: string;
+  name: string;
+  voxels: Voxel[];
+  dimensions: GridDimensions;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export type ViewMode = '3d-edit' | '2d-blueprint';
 
+// 3D editor tools: single blocks, or bulk edits that each make one undo step
+export type EditorTool = 'build' | 'erase' | 'box' | 'line' | 'column' | 'extrude';
+
+// Layer slicing in the 3D editor: every layer, the layers up to the active one, or the active layer alone
+export type LayerMode = 'all' | 'up-to' | 'single';
+
+// Everything covered by the editor's undo/redo history
+export interface EditorSnapshot {
+  voxels: Voxel[];
+  blueprint: GridState;
+  heights: number[][]; // Height-map blueprint (Top View layout)
+  dimensions: GridDimensions;
+}
+
 export interface Stats {
   count: number;
   surfaceArea: number;
@@ -26,9 +60,49 @@ export interface Stats {
 // Quiz Mode Types
 export type QuizState = 'playing' | 'correct' | 'incorrect' | 'revealed';
 
+// What the student is asked about the structure
+export type QuestionType = 'count' | 'surface-area' | 'top-view-choice' | 'top-view-numbers' | 'hidden-count' | 'build';
+
+// A number (count, area or chosen option index), a grid of numbers,
+// the blocks of a built structure, or null when time ran out before an
+// answer was given
+export type QuizAnswer = number | (number | null)[][] | Voxel[] | null;
+
+// Extra rules a teacher can attach to a shared quiz
+export interface QuizShareOptions {
+  questionType: QuestionType;
+  // Accept any block count in this range (for puzzles with several answers)
+  acceptRange: { min: number; max: number } | null;
+  // Show the view numbers (heights/depths) as hints
+  showNumbers: boolean;
+  // "Build it" questions also require the target's block count
+  exactCount: boolean;
+  // Views shown to the student, in display order
+  views: ViewDirection[];
+  // Views show the color of the block seen in each cell, not just its outline
+  colorViews: boolean;
+}
+
+// One question of a quiz set shared as a single link
+export interface QuizSetItem {
+  voxels: Voxel[];
+  dimensions: GridDimensions;
+  options: QuizShareOptions;
+  timeLimit: number; // in seconds, 0 = no limit
+}
+
+// A student's answer to one question of a quiz set
+export interface QuizSetResult {
+  answer: QuizAnswer;
+  isCorrect: boolean;
+  elapsedSeconds: number;
+  hintsUsed: number;
+}
+
 export interface QuizData {
   voxels: Voxel[];
-  correctAnswer: number; // Block count
+  questionType: QuestionType;
+  correctAnswer: QuizAnswer;
 }
 
 export interface ModalProps {
@@ -0,0 +1,187 @@
+import { Voxel, GridDimensions, Vector3 } from '../types';
+import { getVoxelSet, isInBounds, isSupported } from './voxelEngine';
+
+export interface Cell {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Connected, coplanar block faces pointing the same way (the extrude selection)
+export interface FaceSelection {
+  normal: Vector3;
+  cells: Cell[]; // Blocks owning the faces
+}
+
+const cellKey = (c: Cell) => `${c.x},${c.y},${c.z}`;
+
+const range = (a: number, b: number): number[] => {
+  const out: number[] = [];
+  for (let i = Math.min(a, b); i <= Math.max(a, b); i++) out.push(i);
+  return out;
+};
+
+/**
+ * Cells of the box spanned by two corner cells, grown to `size` layers
+ * along the normal of the face the drag started on (floor: upwards)
+ */
+export const getBoxCells = (start: Cell, end: Cell, normal: Vector3, size: number): Cell[] => {
+  const grow = Math.max(0, size - 1);
+  const [nx, ny, nz] = normal;
+  const xs = range(start.x, end.x + nx * grow);
+  const ys = range(start.y, end.y + ny * grow);
+  const zs = range(start.z, end.z + nz * grow);
+  return xs.flatMap(x => ys.flatMap(y => zs.map(z => ({ x, y, z }))));
+};
+
+/**
+ * Cells on the straight line between two cells, one step per unit along
+ * the longest axis (3D Bresenham by rounding)
+ */
+export const getLineCells = (start: Cell, end: Cell): Cell[] => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const dz = end.z - start.z;
+  const steps = Math.max(Math.abs(dx), Math.abs(dy), Math.abs(dz));
+  if (steps === 0) return [start];
+
+  return Array.from({ length: steps + 1 }, (_, i) => ({
+    x: Math.round(start.x + (dx * i) / steps),
+    y: Math.round(start.y + (dy * i) / steps),
+    z: Math.round(start.z + (dz * i) / steps)
+  }));
+};
+
+// Adds blocks in the given cells (inside the grid, not already filled)
+export const addCells = (voxels: Voxel[], cells: Cell[], color: string, dims: GridDimensions): Voxel[] => {
+  const voxelSet = getVoxelSet(voxels);
+  const added: Voxel[] = [];
+  cells.forEach(c => {
+    const id = cellKey(c);
+    if (!isInBounds(c.x, c.y, c.z, dims) || voxelSet.has(id)) return;
+    voxelSet.add(id);
+    added.push({ ...c, id, color });
+  });
+  return added.length > 0 ? [...voxels, ...added] : voxels;
+};
+
+/**
+ * Makes the column at (x, z) exactly `height` blocks tall from the floor:
+ * fills gaps below and removes blocks above
+ */
+export const setColumnHeight = (voxels: Voxel[], x: number, z: number, height: number, color: string, dims: GridDimensions): Voxel[] => {
+  const kept = voxels.filter(v => v.x !== x || v.z !== z || v.y < height);
+  return addCells(kept, Array.from({ length: Math.max(0, height) }, (_, y) => ({ x, y, z })), color, dims);
+};
+
+/**
+ * Flood-fills from one block face to every connected face on the same
+ * plane that points the same way and is not covered by a neighbour
+ */
+export const selectFace = (voxels: Voxel[], start: Cell, normal: Vector3): FaceSelection => {
+  const voxelSet = getVoxelSet(voxels);
+  const [nx, ny, nz] = normal;
+  const isExposed = (c: Cell) =>
+    voxelSet.has(cellKey(c)) && !voxelSet.has(cellKey({ x: c.x + nx, y: c.y + ny, z: c.z + nz }));
+
+  // Steps that stay on the plane: the two axes the normal doesn't point along
+  const steps: Cell[] = [
+    { x: 1, y: 0, z: 0 }, { x: -1, y: 0, z: 0 },
+    { x: 0, y: 1, z: 0 }, { x: 0, y: -1, z: 0 },
+    { x: 0, y: 0, z: 1 }, { x: 0, y: 0, z: -1 }
+  ].filter(s => s.x * nx + s.y * ny + s.z * nz === 0);
+
+  const cells: Cell[] = [];
+  const seen = new Set<string>();
+  const queue: Cell[] = isExposed(start) ? [start] : [];
+  seen.add(cellKey(start));
+
+  while (queue.length > 0) {
+    const cell = queue.shift()!;
+    cells.push({ x: cell.x, y: cell.y, z: cell.z });
+    steps.forEach(s => {
+      const next = { x: cell.x + s.x, y: cell.y + s.y, z: cell.z + s.z };
+      const key = cellKey(next);
+      if (!seen.has(key) && isExposed(next)) {
+        seen.add(key);
+        queue.push(next);
+      }
+    });
+  }
+
+  return { normal, cells };
+};
+
+/**
+ * Pushes the selected faces one block outward (adds a layer in front of them)
+ * or inward (removes the blocks that own them). Returns the new voxels and
+ * the selection moved along, so the same faces can be extruded again.
+ */
+export const extrudeFaces = (
+  voxels: Voxel[],
+  selection: FaceSelection,
+  direction: 1 | -1,
+  color: string,
+  dims: GridDimensions
+): { voxels: Voxel[]; selection: FaceSelection } => {
+  const [nx, ny, nz] = selection.normal;
+  let next: Voxel[];
+  let moved: Cell[];
+
+  if (direction === 1) {
+    moved = selection.cells.map(c => ({ x: c.x + nx, y: c.y + ny, z: c.z + nz }));
+    next = addCells(voxels, moved, color, dims);
+  } else {
+    const removed = new Set(selection.cells.map(cellKey));
+    next = voxels.filter(v => !removed.has(cellKey(v)));
+    moved = selection.cells.map(c => ({ x: c.x - nx, y: c.y - ny, z: c.z - nz }));
+  }
+
+  return { voxels: next, selection: trimSelection({ normal: selection.normal, cells: moved }, next) };
+};
+
+// Keeps only the selected faces that still exist and are uncovered in `voxels`
+export const trimSelection = (selection: FaceSelection, voxels: Voxel[]): FaceSelection => {
+  const [nx, ny, nz] = selection.normal;
+  const voxelSet = getVoxelSet(voxels);
+  const cells = selection.cells.filter(c =>
+    voxelSet.has(cellKey(c)) && !voxelSet.has(cellKey({ x: c.x + nx, y: c.y + ny, z: c.z + nz }))
+  );
+  return { normal: selection.normal, cells };
+};
+
+/**
+ * Applies editor limits to a bulk edit as a whole: changes outside the
+ * editable layers are dropped, and in physical mode new blocks with nothing
+ * underneath are left out. An edit that would leave an existing block
+ * floating is rejected entirely (returns `before`).
+ */
+export const limitBulkEdit = (
+  before: Voxel[],
+  after: Voxel[],
+  canEditLayer: (y: number) => boolean,
+  physical: boolean
+): Voxel[] => {
+  const beforeSet = getVoxelSet(before);
+  const afterSet = getVoxelSet(after);
+
+  const kept = before.filter(v => afterSet.has(cellKey(v)) || !canEditLayer(v.y));
+  let added = after.filter(v => !beforeSet.has(cellKey(v)) && canEditLayer(v.y));
+
+  if (physical) {
+    // New blocks may rest on each other, so drop unsupported ones until stable
+    let changed = true;
+    while (changed) {
+      const set = getVoxelSet([...kept, ...added]);
+      const supported = added.filter(v => isSupported(v.x, v.y, v.z, set));
+      changed = supported.length !== added.length;
+      added = supported;
+    }
+    const set = getVoxelSet([...kept, ...added]);
+    if (kept.some(v => isSupported(v.x, v.y, v.z, beforeSet) && !isSupported(v.x, v.y, v.z, set))) {
+      return before;
+    }
+  }
+
+  return kept.length === before.length && added.length === 0 ? before : [...kept, ...added];
+};
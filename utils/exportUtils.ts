@@ -0,0 +1,314 @@
+import { Voxel } from '../types';
+import { CUBE_SIZE, COLORS } from '../constants';
+import { getVoxelSet } from './voxelEngine';
+
+export type ExportFormat = 'stl' | 'obj' | 'glb';
+
+type Vec3 = [number, number, number];
+
+interface Face {
+  corners: [Vec3, Vec3, Vec3, Vec3]; // Counter-clockwise seen from outside
+  normal: Vec3;
+  color: string;
+}
+
+// The six cube faces: outward normal and corner offsets (CCW from outside)
+const FACE_TEMPLATES: { normal: Vec3; corners: [Vec3, Vec3, Vec3, Vec3] }[] = [
+  { normal: [1, 0, 0], corners: [[1, 0, 0], [1, 1, 0], [1, 1, 1], [1, 0, 1]] },
+  { normal: [-1, 0, 0], corners: [[0, 0, 0], [0, 0, 1], [0, 1, 1], [0, 1, 0]] },
+  { normal: [0, 1, 0], corners: [[0, 1, 0], [0, 1, 1], [1, 1, 1], [1, 1, 0]] },
+  { normal: [0, -1, 0], corners: [[0, 0, 0], [1, 0, 0], [1, 0, 1], [0, 0, 1]] },
+  { normal: [0, 0, 1], corners: [[0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1]] },
+  { normal: [0, 0, -1], corners: [[0, 0, 0], [0, 1, 0], [1, 1, 0], [1, 0, 0]] },
+];
+
+/**
+ * Builds the outer surface of the structure: one quad per exposed cube face.
+ * Faces shared by two cubes are skipped, so the result has no internal
+ * faces and is closed. Cubes that touch only along an edge leave that edge
+ * shared by four quads, so such meshes are not strictly manifold.
+ * Coordinates are in the app's axes (Y up), scaled by `unit` per cube.
+ */
+const buildSurface = (voxels: Voxel[], unit: number): Face[] => {
+  const voxelSet = getVoxelSet(voxels);
+  const faces: Face[] = [];
+
+  voxels.forEach(v => {
+    FACE_TEMPLATES.forEach(({ normal, corners }) => {
+      const neighbor = `${v.x + normal[0]},${v.y + normal[1]},${v.z + normal[2]}`;
+      if (voxelSet.has(neighbor)) return;
+
+      faces.push({
+        corners: corners.map(([cx, cy, cz]) => [
+          (v.x + cx) * unit,
+          (v.y + cy) * unit,
+          (v.z + cz) * unit
+        ]) as Face['corners'],
+        normal,
+        color: (v.color || COLORS.voxelDefault).toUpperCase()
+      });
+    });
+  });
+
+  return faces;
+};
+
+// Millimetres per cube edge for a given user scale
+const getUnit = (scaleMm: number): number => CUBE_SIZE * scaleMm;
+
+/**
+ * Binary STL in millimetres. Converted to Z-up, which slicers expect.
+ */
+export const exportSTL = (voxels: Voxel[], scaleMm: number): Blob => {
+  const faces = buildSurface(voxels, getUnit(scaleMm));
+  const triangleCount = faces.length * 2;
+  const buffer = new ArrayBuffer(84 + triangleCount * 50);
+  const view = new DataView(buffer);
+
+  const header = 'Cube Master STL export (units: mm)';
+  for (let i = 0; i < header.length; i++) view.setUint8(i, header.charCodeAt(i));
+  view.setUint32(80, triangleCount, true);
+
+  // (x, y, z) Y-up -> (x, -z, y) Z-up: a rotation, so winding is preserved
+  const toZUp = ([x, y, z]: Vec3): Vec3 => [x, -z, y];
+
+  let offset = 84;
+  const writeVec = (vec: Vec3) => {
+    vec.forEach(n => {
+      view.setFloat32(offset, n, true);
+      offset += 4;
+    });
+  };
+
+  faces.forEach(face => {
+    const [a, b, c, d] = face.corners.map(toZUp);
+    const normal = toZUp(face.normal);
+    [[a, b, c], [a, c, d]].forEach(triangle => {
+      writeVec(normal);
+      triangle.forEach(writeVec);
+      view.setUint16(offset, 0, true);
+      offset += 2;
+    });
+  });
+
+  return new Blob([buffer], { type: 'model/stl' });
+};
+
+const colorToMaterialName = (color: string): string => `color_${color.replace('#', '').toLowerCase()}`;
+
+const hexToLinearRgb = (hex: string): Vec3 => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map(c => {
+    const srgb = c / 255;
+    return srgb <= 0.04045 ? srgb / 12.92 : Math.pow((srgb + 0.055) / 1.055, 2.4);
+  }) as Vec3;
+};
+
+const hexToRgb = (hex: string): Vec3 => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map(c => c / 255) as Vec3;
+};
+
+/**
+ * Wavefront OBJ plus its MTL file, one material per voxel color (units: mm)
+ */
+export const exportOBJ = (voxels: Voxel[], scaleMm: number, baseName: string): { obj: Blob; mtl: Blob } => {
+  const faces = buildSurface(voxels, getUnit(scaleMm));
+
+  // Shared vertices and the six axis normals
+  const vertexIndex = new Map<string, number>();
+  const vertexLines: string[] = [];
+  const normalIndex = new Map<string, number>();
+  const normalLines: string[] = [];
+
+  const getVertex = (vec: Vec3): number => {
+    const key = vec.join(' ');
+    let index = vertexIndex.get(key);
+    if (index === undefined) {
+      index = vertexLines.length + 1;
+      vertexIndex.set(key, index);
+      vertexLines.push(`v ${key}`);
+    }
+    return index;
+  };
+
+  const getNormal = (vec: Vec3): number => {
+    const key = vec.join(' ');
+    let index = normalIndex.get(key);
+    if (index === undefined) {
+      index = normalLines.length + 1;
+      normalIndex.set(key, index);
+      normalLines.push(`vn ${key}`);
+    }
+    return index;
+  };
+
+  // Group faces by color so each material is listed once
+  const groups = new Map<string, string[]>();
+  faces.forEach(face => {
+    const n = getNormal(face.normal);
+    const refs = face.corners.map(corner => `${getVertex(corner)}//${n}`);
+    const lines = groups.get(face.color) ?? [];
+    lines.push(`f ${refs.join(' ')}`);
+    groups.set(face.color, lines);
+  });
+
+  const objLines = [
+    '# Cube Master OBJ export (units: mm)',
+    `mtllib ${baseName}.mtl`,
+    ...vertexLines,
+    ...normalLines
+  ];
+  groups.forEach((lines, color) => {
+    objLines.push(`usemtl ${colorToMaterialName(color)}`, ...lines);
+  });
+
+  const mtlLines = ['# Cube Master materials'];
+  groups.forEach((_, color) => {
+    const [r, g, b] = hexToRgb(color);
+    mtlLines.push(
+      `newmtl ${colorToMaterialName(color)}`,
+      `Kd ${r.toFixed(4)} ${g.toFixed(4)} ${b.toFixed(4)}`,
+      'Ka 0 0 0',
+      'd 1',
+      ''
+    );
+  });
+
+  return {
+    obj: new Blob([objLines.join('\n') + '\n'], { type: 'text/plain' }),
+    mtl: new Blob([mtlLines.join('\n')], { type: 'text/plain' })
+  };
+};
+
+/**
+ * Binary glTF (GLB) with one primitive per voxel color.
+ * glTF uses metres, so the millimetre scale is divided by 1000.
+ */
+export const exportGLB = (voxels: Voxel[], scaleMm: number): Blob => {
+  const faces = buildSurface(voxels, getUnit(scaleMm) / 1000);
+
+  const groups = new Map<string, Face[]>();
+  faces.forEach(face => {
+    const list = groups.get(face.color) ?? [];
+    list.push(face);
+    groups.set(face.color, list);
+  });
+
+  // Binary chunk layout: per color, positions + normals + indices
+  const chunks: ArrayBuffer[] = [];
+  let byteLength = 0;
+  const bufferViews: object[] = [];
+  const accessors: object[] = [];
+  const materials: object[] = [];
+  const primitives: object[] = [];
+
+  const addBufferView = (data: ArrayBuffer, target: number): number => {
+    bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: data.byteLength, target });
+    chunks.push(data);
+    byteLength += data.byteLength; // All views are 4-byte multiples
+    return bufferViews.length - 1;
+  };
+
+  groups.forEach((groupFaces, color) => {
+    const positions = new Float32Array(groupFaces.length * 12);
+    const normals = new Float32Array(groupFaces.length * 12);
+    const indices = new Uint32Array(groupFaces.length * 6);
+    const min: Vec3 = [Infinity, Infinity, Infinity];
+    const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+
+    groupFaces.forEach((face, f) => {
+      face.corners.forEach((corner, c) => {
+        positions.set(corner, (f * 4 + c) * 3);
+        normals.set(face.normal, (f * 4 + c) * 3);
+        corner.forEach((n, axis) => {
+          min[axis] = Math.min(min[axis], n);
+          max[axis] = Math.max(max[axis], n);
+        });
+      });
+      const base = f * 4;
+      indices.set([base, base + 1, base + 2, base, base + 2, base + 3], f * 6);
+    });
+
+    const vertexCount = groupFaces.length * 4;
+    const positionView = addBufferView(positions.buffer, 34962);
+    const normalView = addBufferView(normals.buffer, 34962);
+    const indexView = addBufferView(indices.buffer, 34963);
+
+    accessors.push(
+      { bufferView: positionView, componentType: 5126, count: vertexCount, type: 'VEC3', min, max },
+      { bufferView: normalView, componentType: 5126, count: vertexCount, type: 'VEC3' },
+      { bufferView: indexView, componentType: 5125, count: indices.length, type: 'SCALAR' }
+    );
+
+    materials.push({
+      name: colorToMaterialName(color),
+      pbrMetallicRoughness: {
+        baseColorFactor: [...hexToLinearRgb(color), 1],
+        metallicFactor: 0.1,
+        roughnessFactor: 0.5
+      }
+    });
+
+    primitives.push({
+      attributes: { POSITION: accessors.length - 3, NORMAL: accessors.length - 2 },
+      indices: accessors.length - 1,
+      material: materials.length - 1
+    });
+  });
+
+  const gltf = {
+    asset: { version: '2.0', generator: 'Cube Master' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0, name: 'Structure' }],
+    meshes: [{ primitives }],
+    materials,
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength }]
+  };
+
+  // JSON chunk is padded with spaces, BIN chunk with zeros (4-byte alignment)
+  let json = JSON.stringify(gltf);
+  while (json.length % 4 !== 0) json += ' ';
+  const jsonBytes = new TextEncoder().encode(json);
+
+  const totalLength = 12 + 8 + jsonBytes.length + 8 + byteLength;
+  const glb = new ArrayBuffer(totalLength);
+  const view = new DataView(glb);
+  const bytes = new Uint8Array(glb);
+
+  view.setUint32(0, 0x46546c67, true); // 'glTF'
+  view.setUint32(4, 2, true);
+  view.setUint32(8, totalLength, true);
+
+  view.setUint32(12, jsonBytes.length, true);
+  view.setUint32(16, 0x4e4f534a, true); // 'JSON'
+  bytes.set(jsonBytes, 20);
+
+  let offset = 20 + jsonBytes.length;
+  view.setUint32(offset, byteLength, true);
+  view.setUint32(offset + 4, 0x004e4942, true); // 'BIN'
+  offset += 8;
+  chunks.forEach(chunk => {
+    bytes.set(new Uint8Array(chunk), offset);
+    offset += chunk.byteLength;
+  });
+
+  return new Blob([glb], { type: 'model/gltf-binary' });
+};
+
+/**
+ * Triggers a browser download for a generated file
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
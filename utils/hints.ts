@@ -0,0 +1,84 @@
+import { Voxel, GridDimensions, QuizSetResult, QuestionType } from '../types';
+import { generateTopViewNumbers } from './voxelEngine';
+
+export type HintKind = 'top-row' | 'layer' | 'front-depth';
+
+export interface HintDefinition {
+  label: string; // Button text
+  description: string; // Shown above the revealed hint
+  reveals: QuestionType[]; // Question types whose answer the hint would show
+}
+
+// Points taken off a correct answer for each hint used
+export const HINT_PENALTY = 20;
+export const MAX_SCORE = 100;
+
+export const HINTS: Record<HintKind, HintDefinition> = {
+  'top-row': {
+    label: '위 모습 한 줄 높이',
+    description: '위에서 본 모습 중 한 줄에 쌓인 블록 높이예요.',
+    // The top view itself, or enough of the heights to rebuild the shape
+    reveals: ['top-view-choice', 'top-view-numbers', 'build']
+  },
+  'layer': {
+    label: '한 층 미리보기',
+    description: '한 층만 떼어서 본 모습이에요.',
+    reveals: []
+  },
+  'front-depth': {
+    label: '앞 모습 깊이',
+    description: '앞에서 본 칸마다 뒤쪽으로 블록이 몇 개 있는지 보여줘요.',
+    // The numbers add up to the block count, and most of the hidden count with it
+    reveals: ['count', 'hidden-count']
+  }
+};
+
+/**
+ * Hints in the order they unlock. When the teacher already shows the view
+ * numbers, the number hints would give nothing away, so they are skipped.
+ * Hints that would show the answer of the question type are left out.
+ */
+export const getHintLadder = (showNumbers: boolean, questionType: QuestionType): HintKind[] => {
+  const ladder: HintKind[] = showNumbers ? ['layer'] : ['top-row', 'layer', 'front-depth'];
+  return ladder.filter(kind => !HINTS[kind].reveals.includes(questionType));
+};
+
+export const getHintScore = (isCorrect: boolean, hintsUsed: number): number =>
+  isCorrect ? Math.max(0, MAX_SCORE - hintsUsed * HINT_PENALTY) : 0;
+
+// Average of the per-question scores
+export const getQuizSetScore = (results: QuizSetResult[]): number =>
+  results.length > 0
+    ? Math.round(results.reduce((sum, r) => sum + getHintScore(r.isCorrect, r.hintsUsed), 0) / results.length)
+    : 0;
+
+/**
+ * Top view heights for the single row (z) holding the most blocks;
+ * every other row is left blank
+ */
+export const getTopRowHint = (voxels: Voxel[], dims: GridDimensions): (number | null)[][] => {
+  const numbers = generateTopViewNumbers(voxels, dims);
+  const rowTotals = numbers.map(row => row.reduce<number>((sum, n) => sum + (n ?? 0), 0));
+  const bestRow = rowTotals.indexOf(Math.max(...rowTotals));
+  return numbers.map((row, r) => (r === bestRow ? row : row.map(() => null)));
+};
+
+/**
+ * Blocks of one layer above the ground (the fullest one), or the ground
+ * layer for flat structures. The ground layer alone only repeats the top view.
+ */
+export const getLayerHint = (voxels: Voxel[]): { layer: number; voxels: Voxel[] } => {
+  const counts = new Map<number, number>();
+  voxels.forEach(v => counts.set(v.y, (counts.get(v.y) ?? 0) + 1));
+
+  let layer = 0;
+  let best = 0;
+  counts.forEach((count, y) => {
+    if (y > 0 && count > best) {
+      layer = y;
+      best = count;
+    }
+  });
+
+  return { layer, voxels: voxels.filter(v => v.y === layer) };
+};
@@ -0,0 +1,222 @@
+import { Voxel, GridDimensions } from '../types';
+import { COLORS, MIN_DIMENSION, MAX_DIMENSION } from '../constants';
+import { isInBounds } from './voxelEngine';
+
+export interface ParsedModel {
+  voxels: Voxel[];
+  warnings: string[];
+}
+
+export interface FitOptions {
+  mode: 'crop' | 'reject';
+  // Shift the model so its lowest corner sits at (0, 0, 0)
+  normalize: boolean;
+}
+
+export interface FitResult {
+  voxels: Voxel[]; // Voxels that fit (empty when rejected)
+  dropped: Voxel[]; // Voxels outside the grid
+  rejected: boolean;
+  // Smallest grid that holds the whole (normalized) model
+  requiredDimensions: GridDimensions;
+}
+
+const makeVoxel = (x: number, y: number, z: number, color?: string): Voxel => ({
+  x, y, z, id: `${x},${y},${z}`, color
+});
+
+// Keeps the first voxel per cell; returns how many duplicates were removed
+const dedupe = (voxels: Voxel[]): { voxels: Voxel[]; duplicates: number } => {
+  const seen = new Set<string>();
+  const unique = voxels.filter(v => {
+    if (seen.has(v.id)) return false;
+    seen.add(v.id);
+    return true;
+  });
+  return { voxels: unique, duplicates: voxels.length - unique.length };
+};
+
+/**
+ * Parses a MagicaVoxel .vox file.
+ * Uses the first model; MagicaVoxel's Z-up axes are mapped to the app's
+ * Y-up axes and palette colors become `Voxel.color`.
+ * Throws an Error with a user-facing message if the file is invalid.
+ */
+export const parseVoxFile = (buffer: ArrayBuffer): ParsedModel => {
+  const view = new DataView(buffer);
+  const readId = (offset: number) =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+  const invalidFile = () => new Error('MagicaVoxel(.vox) 파일이 아닙니다.');
+
+  if (buffer.byteLength < 20 || readId(0) !== 'VOX ') {
+    throw invalidFile();
+  }
+
+  const warnings: string[] = [];
+  const models: { x: number; y: number; z: number; c: number }[][] = [];
+  let palette: string[] | null = null;
+
+  // Walk the flat list of chunks inside MAIN (children are stored inline)
+  let offset = 8;
+  while (offset + 12 <= buffer.byteLength) {
+    const id = readId(offset);
+    const contentSize = view.getInt32(offset + 4, true);
+    const childrenSize = view.getInt32(offset + 8, true);
+    const content = offset + 12;
+
+    // Broken sizes could run past the file or keep the walk from moving on
+    if (contentSize < 0 || childrenSize < 0 || content + contentSize + childrenSize > buffer.byteLength) {
+      throw invalidFile();
+    }
+
+    if (id === 'XYZI') {
+      if (contentSize < 4) throw invalidFile();
+      const count = view.getInt32(content, true);
+      if (count < 0 || 4 + count * 4 > contentSize) throw invalidFile();
+      const points = [];
+      for (let i = 0; i < count; i++) {
+        const p = content + 4 + i * 4;
+        points.push({ x: view.getUint8(p), y: view.getUint8(p + 1), z: view.getUint8(p + 2), c: view.getUint8(p + 3) });
+      }
+      models.push(points);
+    } else if (id === 'RGBA') {
+      if (contentSize < 256 * 4) throw invalidFile();
+      palette = [];
+      for (let i = 0; i < 256; i++) {
+        const p = content + i * 4;
+        palette.push('#' + [0, 1, 2].map(k => view.getUint8(p + k).toString(16).padStart(2, '0')).join('').toUpperCase());
+      }
+    }
+
+    // MAIN steps into its children; other chunks skip theirs
+    const next = id === 'MAIN' ? content + contentSize : content + contentSize + childrenSize;
+    if (next <= offset) throw invalidFile();
+    offset = next;
+  }
+
+  if (models.length === 0) {
+    throw new Error('파일에 복셀 모델이 없습니다.');
+  }
+  if (models.length > 1) {
+    warnings.push(`모델이 ${models.length}개 있어 첫 번째 모델만 가져왔습니다.`);
+  }
+  if (!palette) {
+    warnings.push('팔레트 정보가 없어 기본 색상을 사용했습니다.');
+  }
+
+  // (x, y, z) Z-up -> (x, z, -y) Y-up keeps the model from being mirrored
+  const maxY = Math.max(...models[0].map(p => p.y));
+  const parsed = models[0].map(p =>
+    makeVoxel(p.x, p.z, maxY - p.y, palette ? palette[(p.c - 1 + 256) % 256] : COLORS.voxelDefault)
+  );
+
+  const { voxels, duplicates } = dedupe(parsed);
+  if (duplicates > 0) warnings.push(`겹친 복셀 ${duplicates}개를 제외했습니다.`);
+
+  return { voxels, warnings };
+};
+
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const normalizeHex = (value: string): string | null => {
+  const match = value.trim().match(HEX_COLOR);
+  if (!match) return null;
+  const hex = match[1].length === 3
+    ? match[1].split('').map(c => c + c).join('')
+    : match[1];
+  return `#${hex.toUpperCase()}`;
+};
+
+/**
+ * Parses plain-text voxel lists: one "x,y,z[,color]" per line (Y is up).
+ * Commas, semicolons, tabs or spaces separate fields; blank lines,
+ * '#' comments and a header row are ignored.
+ * Throws an Error if no voxel could be read.
+ */
+export const parseVoxelCsv = (text: string): ParsedModel => {
+  const warnings: string[] = [];
+  const parsed: Voxel[] = [];
+  const badLines: number[] = [];
+  let badColors = 0;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith('//')) return;
+
+    const fields = line.split(/[,;\t]|\s+/).map(f => f.trim()).filter(Boolean);
+    const [x, y, z] = fields.slice(0, 3).map(Number);
+
+    if (fields.length < 3 || [x, y, z].some(n => !Number.isInteger(n))) {
+      // A non-numeric first line is treated as a header row
+      if (parsed.length === 0 && badLines.length === 0 && isNaN(Number(fields[0]))) return;
+      badLines.push(index + 1);
+      return;
+    }
+
+    let color: string | undefined = COLORS.voxelDefault;
+    if (fields[3]) {
+      const hex = normalizeHex(fields[3]);
+      if (hex) color = hex;
+      else badColors++;
+    }
+    parsed.push(makeVoxel(x, y, z, color));
+  });
+
+  if (parsed.length === 0) {
+    throw new Error('읽을 수 있는 좌표가 없습니다. 한 줄에 "x,y,z" 또는 "x,y,z,#색상" 형식으로 입력하세요.');
+  }
+  if (badLines.length > 0) {
+    const preview = badLines.slice(0, 5).join(', ') + (badLines.length > 5 ? ' …' : '');
+    warnings.push(`형식이 잘못된 ${badLines.length}줄을 건너뛰었습니다 (줄 ${preview}).`);
+  }
+  if (badColors > 0) {
+    warnings.push(`알 수 없는 색상 ${badColors}개는 기본 색상으로 바꿨습니다.`);
+  }
+
+  const { voxels, duplicates } = dedupe(parsed);
+  if (duplicates > 0) warnings.push(`중복 좌표 ${duplicates}개를 제외했습니다.`);
+
+  return { voxels, warnings };
+};
+
+/**
+ * Places an imported model into the grid, cropping or rejecting
+ * whatever does not fit
+ */
+export const fitToDimensions = (voxels: Voxel[], dims: GridDimensions, options: FitOptions): FitResult => {
+  let placed = voxels;
+
+  if (options.normalize && voxels.length > 0) {
+    const minX = Math.min(...voxels.map(v => v.x));
+    const minY = Math.min(...voxels.map(v => v.y));
+    const minZ = Math.min(...voxels.map(v => v.z));
+    placed = voxels.map(v => makeVoxel(v.x - minX, v.y - minY, v.z - minZ, v.color));
+  }
+
+  const requiredDimensions: GridDimensions = placed.length > 0
+    ? {
+        width: Math.max(1, ...placed.map(v => v.x + 1)),
+        depth: Math.max(1, ...placed.map(v => v.z + 1)),
+        height: Math.max(1, ...placed.map(v => v.y + 1))
+      }
+    : { width: 1, depth: 1, height: 1 };
+
+  const kept = placed.filter(v => isInBounds(v.x, v.y, v.z, dims));
+  const dropped = placed.filter(v => !isInBounds(v.x, v.y, v.z, dims));
+  const rejected = options.mode === 'reject' && dropped.length > 0;
+
+  return {
+    voxels: rejected ? [] : kept,
+    dropped,
+    rejected,
+    requiredDimensions
+  };
+};
+
+/**
+ * Whether a grid of the given size can be chosen in the editor
+ */
+export const isDimensionsAllowed = (dims: GridDimensions): boolean => {
+  return [dims.width, dims.depth, dims.height].every(n => n >= MIN_DIMENSION && n <= MAX_DIMENSION);
+};
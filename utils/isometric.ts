@@ -0,0 +1,91 @@
+import { Voxel } from '../types';
+import { COLORS } from '../constants';
+import { getVoxelSet } from './voxelEngine';
+
+export interface IsoPolygon {
+  points: [number, number][];
+  fill: string;
+}
+
+export interface IsoDrawing {
+  polygons: IsoPolygon[];
+  // Bounding box of all polygons in drawing units
+  minX: number;
+  minY: number;
+  width: number;
+  height: number;
+}
+
+const COS_30 = Math.sqrt(3) / 2;
+
+// Projects a 3D point for a viewer above the +X/+Z corner (same side as the 3D camera)
+const project = (x: number, y: number, z: number): [number, number] => [
+  (x - z) * COS_30,
+  (x + z) * 0.5 - y
+];
+
+/**
+ * Scales a hex color's brightness (factor > 1 lightens, < 1 darkens)
+ */
+export const shadeColor = (hex: string, factor: number): string => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  const channels = [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map(c =>
+    Math.max(0, Math.min(255, Math.round(factor >= 1 ? c + (255 - c) * (factor - 1) : c * factor)))
+  );
+  return '#' + channels.map(c => c.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Builds an isometric drawing of the structure.
+ * Only the three faces seen by the viewer (top, right, front) are drawn,
+ * hidden faces between neighbours are skipped, and cubes are ordered
+ * back-to-front so nearer faces paint over farther ones.
+ *
+ * With `lineArt`, every face is white (for printed worksheets).
+ */
+export const buildIsometricDrawing = (voxels: Voxel[], lineArt = false): IsoDrawing => {
+  const voxelSet = getVoxelSet(voxels);
+  const sorted = [...voxels].sort((a, b) => (a.x + a.y + a.z) - (b.x + b.y + b.z) || a.y - b.y);
+  const polygons: IsoPolygon[] = [];
+
+  sorted.forEach(v => {
+    const { x, y, z } = v;
+    const base = v.color || COLORS.voxelDefault;
+
+    if (!voxelSet.has(`${x},${y + 1},${z}`)) {
+      polygons.push({
+        points: [project(x, y + 1, z), project(x + 1, y + 1, z), project(x + 1, y + 1, z + 1), project(x, y + 1, z + 1)],
+        fill: lineArt ? '#FFFFFF' : shadeColor(base, 1.25)
+      });
+    }
+    if (!voxelSet.has(`${x + 1},${y},${z}`)) {
+      polygons.push({
+        points: [project(x + 1, y, z), project(x + 1, y + 1, z), project(x + 1, y + 1, z + 1), project(x + 1, y, z + 1)],
+        fill: lineArt ? '#FFFFFF' : shadeColor(base, 0.75)
+      });
+    }
+    if (!voxelSet.has(`${x},${y},${z + 1}`)) {
+      polygons.push({
+        points: [project(x, y, z + 1), project(x + 1, y, z + 1), project(x + 1, y + 1, z + 1), project(x, y + 1, z + 1)],
+        fill: lineArt ? '#FFFFFF' : base
+      });
+    }
+  });
+
+  if (polygons.length === 0) {
+    return { polygons, minX: 0, minY: 0, width: 1, height: 1 };
+  }
+
+  const xs = polygons.flatMap(p => p.points.map(pt => pt[0]));
+  const ys = polygons.flatMap(p => p.points.map(pt => pt[1]));
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  return {
+    polygons,
+    minX,
+    minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY
+  };
+};
@@ -0,0 +1,17 @@
+import { Voxel, LayerMode } from '../types';
+
+// Blocks on each layer, index = y (ground layer first)
+export const getLayerCounts = (voxels: Voxel[], height: number): number[] => {
+  const counts: number[] = Array(height).fill(0);
+  voxels.forEach(v => {
+    if (v.y >= 0 && v.y < height) counts[v.y]++;
+  });
+  return counts;
+};
+
+export const isLayerVisible = (y: number, mode: LayerMode, activeLayer: number): boolean =>
+  mode === 'all' || (mode === 'up-to' ? y <= activeLayer : y === activeLayer);
+
+// While slicing, only the active layer can be built on or erased
+export const isLayerEditable = (y: number, mode: LayerMode, activeLayer: number): boolean =>
+  mode === 'all' || y === activeLayer;
@@ -0,0 +1,144 @@
+/**
+ * Minimal PDF writer for vector pages: filled/stroked paths and text.
+ *
+ * Text uses the Korean standard font HYGoThic-Medium (Adobe-Korea1) with
+ * UCS-2 encoding, so Hangul works without embedding a font file; PDF viewers
+ * substitute a matching system font. Coordinates passed in are measured from
+ * the top-left corner in points and flipped to PDF's bottom-left origin.
+ */
+
+export interface PdfPath {
+  points: [number, number][];
+  closed: boolean;
+  fill: string | null; // Hex color, or null for no fill
+  stroke: string | null;
+  lineWidth: number;
+  dash?: number[];
+}
+
+export interface PdfText {
+  x: number;
+  y: number; // Baseline
+  text: string;
+  size: number;
+  color: string;
+  bold?: boolean;
+  align?: 'left' | 'center';
+}
+
+export interface PdfPage {
+  path: (path: PdfPath) => void;
+  text: (text: PdfText) => void;
+}
+
+const FONT_NAME = 'HYGoThic-Medium';
+
+const formatNumber = (n: number): string => (Math.round(n * 100) / 100).toString();
+
+const hexToPdfColor = (hex: string): string => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+    .map(c => formatNumber(c / 255))
+    .join(' ');
+};
+
+// UTF-16BE hex string for the UniKS-UCS2-H encoding
+const encodeText = (text: string): string => {
+  let hex = '';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+  }
+  return `<${hex.toUpperCase()}>`;
+};
+
+/**
+ * Approximate advance width in ems: Latin glyphs are half width (see the
+ * /W array of the font), everything else is full width
+ */
+export const estimateTextWidth = (text: string, size: number): number =>
+  [...text].reduce((sum, ch) => sum + (ch.charCodeAt(0) < 0x80 ? 0.5 : 1), 0) * size;
+
+export const createPdfDocument = (width: number, height: number) => {
+  const contents: string[] = [];
+
+  const addPage = (): PdfPage => {
+    const ops: string[] = [];
+    contents.push('');
+    const index = contents.length - 1;
+    const flush = () => {
+      contents[index] = ops.join('\n');
+    };
+
+    const path = ({ points, closed, fill, stroke, lineWidth, dash }: PdfPath) => {
+      if (points.length === 0 || (!fill && !stroke)) return;
+      ops.push('q');
+      if (fill) ops.push(`${hexToPdfColor(fill)} rg`);
+      if (stroke) ops.push(`${hexToPdfColor(stroke)} RG`, `${formatNumber(lineWidth)} w`, '1 j');
+      if (dash) ops.push(`[${dash.map(formatNumber).join(' ')}] 0 d`);
+      points.forEach(([x, y], i) => {
+        ops.push(`${formatNumber(x)} ${formatNumber(height - y)} ${i === 0 ? 'm' : 'l'}`);
+      });
+      if (closed) ops.push('h');
+      ops.push(fill && stroke ? 'B' : fill ? 'f' : 'S', 'Q');
+      flush();
+    };
+
+    const text = ({ x, y, text, size, color, bold = false, align = 'left' }: PdfText) => {
+      if (!text) return;
+      const left = align === 'center' ? x - estimateTextWidth(text, size) / 2 : x;
+      ops.push(
+        'BT',
+        `/F1 ${formatNumber(size)} Tf`,
+        `${hexToPdfColor(color)} rg`,
+        // Fake bold by stroking the glyph outlines as well
+        bold ? `2 Tr ${hexToPdfColor(color)} RG ${formatNumber(size / 30)} w` : '0 Tr',
+        `${formatNumber(left)} ${formatNumber(height - y)} Td`,
+        `${encodeText(text)} Tj`,
+        'ET'
+      );
+      flush();
+    };
+
+    return { path, text };
+  };
+
+  const toBlob = (): Blob => {
+    const objects: string[] = [];
+    const pageCount = contents.length;
+    // 1: catalog, 2: page tree, 3-5: font, then a page and its content per page
+    const pageRef = (i: number) => 6 + i * 2;
+    const contentRef = (i: number) => 7 + i * 2;
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${contents.map((_, i) => `${pageRef(i)} 0 R`).join(' ')}] /Count ${pageCount} >>`;
+    objects[3] = `<< /Type /Font /Subtype /Type0 /BaseFont /${FONT_NAME} /Encoding /UniKS-UCS2-H /DescendantFonts [4 0 R] >>`;
+    objects[4] = `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${FONT_NAME} ` +
+      '/CIDSystemInfo << /Registry (Adobe) /Ordering (Korea1) /Supplement 1 >> ' +
+      '/FontDescriptor 5 0 R /DW 1000 /W [1 95 500] >>';
+    objects[5] = `<< /Type /FontDescriptor /FontName /${FONT_NAME} /Flags 4 ` +
+      '/FontBBox [-6 -145 1003 880] /ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 93 >>';
+    contents.forEach((content, i) => {
+      objects[pageRef(i)] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(width)} ${formatNumber(height)}] ` +
+        `/Resources << /Font << /F1 3 0 R >> >> /Contents ${contentRef(i)} 0 R >>`;
+      // Content streams are plain ASCII (text is hex-encoded), so length = characters
+      objects[contentRef(i)] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let i = 1; i < objects.length; i++) {
+      offsets[i] = pdf.length;
+      pdf += `${i} 0 obj\n${objects[i]}\nendobj\n`;
+    }
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let i = 1; i < objects.length; i++) {
+      pdf += `${offsets[i].toString().padStart(10, '0')} 00000 n \n`;
+    }
+    pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new Blob([pdf], { type: 'application/pdf' });
+  };
+
+  return { addPage, toBlob };
+};
@@ -0,0 +1,220 @@
+import { Voxel, GridDimensions } from '../types';
+import { COLORS } from '../constants';
+import { project3DTo2D, solveProjections, findHiddenVoxels } from './voxelEngine';
+import { getShapeHash } from './shapes';
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface DifficultyPreset {
+  label: string;
+  description: string;
+  dimensions: GridDimensions;
+  minBlocks: number;
+  maxBlocks: number;
+  maxHeight: number;
+  minHidden: number;
+  maxHidden: number;
+  // Count must follow from the three silhouettes alone
+  requireUnique: boolean;
+  // Quiz shows view numbers (needed when the silhouettes are ambiguous)
+  showNumbers: boolean;
+}
+
+/*
+ * A block hidden in all three views can always be removed without changing
+ * the silhouettes, so puzzles with hidden blocks are never unique on their
+ * own. The hard preset therefore turns on the view numbers instead.
+ */
+export const DIFFICULTY_PRESETS: Record<Difficulty, DifficultyPreset> = {
+  easy: {
+    label: '쉬움',
+    description: '블록 3~6개, 2층까지',
+    dimensions: { width: 3, depth: 3, height: 3 },
+    minBlocks: 3,
+    maxBlocks: 6,
+    maxHeight: 2,
+    minHidden: 0,
+    maxHidden: 0,
+    requireUnique: true,
+    showNumbers: false
+  },
+  medium: {
+    label: '보통',
+    description: '블록 6~10개, 3층까지',
+    dimensions: { width: 4, depth: 4, height: 4 },
+    minBlocks: 6,
+    maxBlocks: 10,
+    maxHeight: 3,
+    minHidden: 0,
+    maxHidden: 0,
+    requireUnique: true,
+    showNumbers: false
+  },
+  hard: {
+    label: '어려움',
+    description: '블록 10~16개, 4층까지, 보이지 않는 블록 포함',
+    dimensions: { width: 5, depth: 5, height: 5 },
+    minBlocks: 10,
+    maxBlocks: 16,
+    maxHeight: 4,
+    minHidden: 1,
+    maxHidden: 4,
+    requireUnique: false,
+    showNumbers: true
+  }
+};
+
+export interface GeneratedPuzzle {
+  voxels: Voxel[];
+  dimensions: GridDimensions;
+  difficulty: Difficulty;
+  seed: number;
+  maxHeight: number;
+  hiddenCount: number;
+  unique: boolean; // Count follows from the three silhouettes
+  matchesPreset: boolean; // False if no attempt met every constraint
+}
+
+// Candidate structures tried before settling for the closest one
+const MAX_ATTEMPTS = 300;
+
+// Seeds tried by generateDistinctPuzzle before giving up on a new shape
+const MAX_DISTINCT_SEEDS = 20;
+
+/**
+ * Small seeded PRNG (mulberry32) returning floats in [0, 1)
+ */
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Turns user input into a seed: numbers are used as-is, other text is hashed
+ */
+export const parseSeed = (text: string): number => {
+  const trimmed = text.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const createRandomSeed = (): number => Math.floor(Math.random() * 1000000);
+
+const randomInt = (random: () => number, min: number, max: number): number =>
+  min + Math.floor(random() * (max - min + 1));
+
+/**
+ * Builds a supported, connected structure: a connected footprint on the
+ * floor with a stack of blocks on every footprint cell
+ */
+const buildCandidate = (random: () => number, preset: DifficultyPreset, blockCount: number): Voxel[] => {
+  const { width, depth } = preset.dimensions;
+  const maxHeight = Math.min(preset.maxHeight, preset.dimensions.height);
+
+  const minFootprint = Math.ceil(blockCount / maxHeight);
+  const footprintSize = randomInt(random, minFootprint, Math.min(blockCount, width * depth));
+
+  // Grow the footprint from a random cell through edge neighbours
+  const heights = new Map<string, number>();
+  const key = (x: number, z: number) => `${x},${z}`;
+  const cells: { x: number; z: number }[] = [];
+  const start = { x: randomInt(random, 0, width - 1), z: randomInt(random, 0, depth - 1) };
+  cells.push(start);
+  heights.set(key(start.x, start.z), 1);
+
+  while (cells.length < footprintSize) {
+    const from = cells[Math.floor(random() * cells.length)];
+    const [dx, dz] = [[1, 0], [-1, 0], [0, 1], [0, -1]][Math.floor(random() * 4)];
+    const x = from.x + dx;
+    const z = from.z + dz;
+    if (x < 0 || x >= width || z < 0 || z >= depth || heights.has(key(x, z))) continue;
+    cells.push({ x, z });
+    heights.set(key(x, z), 1);
+  }
+
+  // Stack the remaining blocks on random columns
+  let remaining = blockCount - footprintSize;
+  while (remaining > 0) {
+    const cell = cells[Math.floor(random() * cells.length)];
+    const h = heights.get(key(cell.x, cell.z))!;
+    if (h >= maxHeight) continue;
+    heights.set(key(cell.x, cell.z), h + 1);
+    remaining--;
+  }
+
+  const voxels: Voxel[] = [];
+  cells.forEach(({ x, z }) => {
+    for (let y = 0; y < heights.get(key(x, z))!; y++) {
+      voxels.push({ x, y, z, id: `${x},${y},${z}`, color: COLORS.voxelDefault });
+    }
+  });
+  return voxels;
+};
+
+/**
+ * Generates a random puzzle for the given difficulty.
+ * The same difficulty and seed always produce the same puzzle.
+ */
+export const generatePuzzle = (difficulty: Difficulty, seed: number): GeneratedPuzzle => {
+  const preset = DIFFICULTY_PRESETS[difficulty];
+  const random = createRandom(seed);
+  let best: { puzzle: GeneratedPuzzle; penalty: number } | null = null;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const blockCount = randomInt(random, preset.minBlocks, preset.maxBlocks);
+    const voxels = buildCandidate(random, preset, blockCount);
+
+    const hiddenCount = findHiddenVoxels(voxels).length;
+    const solution = solveProjections(project3DTo2D(voxels, preset.dimensions), preset.dimensions);
+    const unique = solution.exact && solution.min === solution.max;
+
+    // How far the candidate is from the preset's constraints
+    const penalty =
+      Math.max(0, preset.minHidden - hiddenCount) +
+      Math.max(0, hiddenCount - preset.maxHidden) +
+      (preset.requireUnique && !unique ? 1 : 0);
+
+    const puzzle: GeneratedPuzzle = {
+      voxels,
+      dimensions: preset.dimensions,
+      difficulty,
+      seed,
+      maxHeight: Math.max(...voxels.map(v => v.y + 1)),
+      hiddenCount,
+      unique,
+      matchesPreset: penalty === 0
+    };
+
+    if (penalty === 0) return puzzle;
+    if (!best || penalty < best.penalty) best = { puzzle, penalty };
+  }
+
+  return best!.puzzle;
+};
+
+/**
+ * Generates a puzzle whose shape differs from every structure in `avoid`
+ * (rotated copies count as the same), trying the following seeds in turn.
+ * Falls back to the puzzle for `seed` if no new shape turns up.
+ */
+export const generateDistinctPuzzle = (difficulty: Difficulty, seed: number, avoid: Voxel[][]): GeneratedPuzzle => {
+  const seen = new Set(avoid.map(voxels => getShapeHash(voxels)));
+  for (let i = 0; i < MAX_DISTINCT_SEEDS; i++) {
+    const puzzle = generatePuzzle(difficulty, (seed + i) >>> 0);
+    if (!seen.has(getShapeHash(puzzle.voxels))) return puzzle;
+  }
+  return generatePuzzle(difficulty, seed);
+};
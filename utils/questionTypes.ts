@@ -0,0 +1,245 @@
+import { Voxel, GridDimensions, QuestionType, QuizAnswer, QuizShareOptions } from '../types';
+import { calculateStats, findHiddenVoxels, getVoxelSet, project3DTo2D, generateTopViewNumbers, compareProjections, solveProjections, BLUEPRINT_VIEW_OF } from './voxelEngine';
+import { createRandom, parseSeed } from './puzzleGenerator';
+import { isSameShape } from './shapes';
+
+export interface QuestionTypeDefinition {
+  label: string; // Name in the share dialog
+  title: string; // Quiz header
+  prompt: string; // Question above the answer input
+  // Three 2D views, or the rotatable 3D model
+  stimulus: 'views' | 'model';
+  // Typed number, one of four pictures, a grid of numbers, or blocks built in 3D
+  answerKind: 'number' | 'choice' | 'grid' | 'build';
+  minAnswer?: number; // Smallest number accepted by the input
+  getCorrectAnswer: (voxels: Voxel[], dims: GridDimensions) => QuizAnswer;
+  isCorrect: (answer: QuizAnswer, voxels: Voxel[], dims: GridDimensions, options: QuizShareOptions) => boolean;
+  formatCorrect: (voxels: Voxel[], dims: GridDimensions, options: QuizShareOptions) => string;
+  formatAnswer: (answer: QuizAnswer, voxels: Voxel[], dims: GridDimensions, options: QuizShareOptions) => string;
+  // Result explanation shown after the answer is revealed
+  explain: (voxels: Voxel[], dims: GridDimensions) => string;
+  // Blocks to highlight in the revealed 3D model
+  getHighlightIds?: (voxels: Voxel[]) => Set<string>;
+}
+
+const TIMEOUT_TEXT = '시간 초과';
+
+// Shared pieces for questions answered with a single number
+const numberQuestion = (
+  getValue: (voxels: Voxel[]) => number,
+  unit: string,
+  minAnswer = 1
+): Pick<QuestionTypeDefinition, 'answerKind' | 'minAnswer' | 'getCorrectAnswer' | 'isCorrect' | 'formatCorrect' | 'formatAnswer'> => ({
+  answerKind: 'number',
+  minAnswer,
+  getCorrectAnswer: (voxels) => getValue(voxels),
+  isCorrect: (answer, voxels) => answer === getValue(voxels),
+  formatCorrect: (voxels) => `${getValue(voxels)}${unit}`,
+  formatAnswer: (answer) => (typeof answer === 'number' ? `${answer}${unit}` : TIMEOUT_TEXT)
+});
+
+// Exposed faces split by direction (up/down, front/back, left/right)
+const countFacesByAxis = (voxels: Voxel[]): { y: number; z: number; x: number } => {
+  const voxelSet = getVoxelSet(voxels);
+  const open = (x: number, y: number, z: number) => (voxelSet.has(`${x},${y},${z}`) ? 0 : 1);
+  return voxels.reduce(
+    (faces, v) => ({
+      y: faces.y + open(v.x, v.y + 1, v.z) + open(v.x, v.y - 1, v.z),
+      z: faces.z + open(v.x, v.y, v.z + 1) + open(v.x, v.y, v.z - 1),
+      x: faces.x + open(v.x + 1, v.y, v.z) + open(v.x - 1, v.y, v.z)
+    }),
+    { y: 0, z: 0, x: 0 }
+  );
+};
+
+const NUMBER_OF_CHOICES = 4;
+
+const gridKey = (grid: boolean[][]): string =>
+  grid.map(row => row.map(cell => (cell ? '1' : '0')).join('')).join('/');
+
+/**
+ * Four Top View options for the multiple-choice question.
+ * Wrong options are mirrored, rotated or one-cell-off versions of the real
+ * view. The options depend only on the structure, so everyone who opens the
+ * same shared quiz sees them in the same order.
+ */
+export const createTopViewChoices = (voxels: Voxel[], dims: GridDimensions): { choices: boolean[][][]; correctIndex: number } => {
+  const correct = project3DTo2D(voxels, dims).top;
+  const random = createRandom(parseSeed(voxels.map(v => v.id).sort().join(';')));
+
+  const filled: [number, number][] = [];
+  const empty: [number, number][] = [];
+  correct.forEach((row, r) => row.forEach((cell, c) => (cell ? filled : empty).push([r, c])));
+
+  const withCell = (r: number, c: number, value: boolean) =>
+    correct.map((row, ri) => row.map((cell, ci) => (ri === r && ci === c ? value : cell)));
+
+  const candidates: boolean[][][] = [
+    correct.map(row => [...row].reverse()),
+    [...correct].reverse(),
+    [...correct].reverse().map(row => [...row].reverse()),
+    ...(filled.length > 1 ? filled.map(([r, c]) => withCell(r, c, false)) : []),
+    ...empty.map(([r, c]) => withCell(r, c, true))
+  ];
+
+  // Shuffle, then keep distinct options that differ from the real view
+  for (let i = candidates.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [candidates[i], candidates[j]] = [candidates[j], candidates[i]];
+  }
+  const seen = new Set([gridKey(correct)]);
+  const wrong = candidates.filter(grid => {
+    const key = gridKey(grid);
+    if (seen.has(key) || !grid.some(row => row.some(Boolean))) return false;
+    seen.add(key);
+    return true;
+  }).slice(0, NUMBER_OF_CHOICES - 1);
+
+  const correctIndex = Math.floor(random() * (wrong.length + 1));
+  const choices = [...wrong];
+  choices.splice(correctIndex, 0, correct);
+  return { choices, correctIndex };
+};
+
+// Built structures are lists of blocks; grid answers are lists of rows
+export const isVoxelAnswer = (answer: QuizAnswer): answer is Voxel[] =>
+  Array.isArray(answer) && answer.every(item => !Array.isArray(item));
+
+const isGridAnswer = (answer: QuizAnswer): answer is (number | null)[][] =>
+  Array.isArray(answer) && answer.every(item => Array.isArray(item));
+
+// Top View numbers with empty cells as null, for comparing answers
+const normalizeGrid = (grid: (number | null)[][]): (number | null)[][] =>
+  grid.map(row => row.map(n => (n && n > 0 ? n : null)));
+
+export const QUESTION_TYPES: Record<QuestionType, QuestionTypeDefinition> = {
+  count: {
+    label: '블록 개수',
+    title: '블록 개수 맞추기',
+    prompt: '블록은 총 몇 개일까요?',
+    stimulus: 'views',
+    ...numberQuestion(voxels => voxels.length, '개'),
+    isCorrect: (answer, voxels, _dims, options) => {
+      if (typeof answer !== 'number') return false;
+      const range = options.acceptRange;
+      if (range) return answer >= range.min && answer <= range.max;
+      return answer === voxels.length;
+    },
+    formatCorrect: (voxels, _dims, options) => {
+      const range = options.acceptRange;
+      return range ? `${range.min}~${range.max}개` : `${voxels.length}개`;
+    },
+    explain: (voxels) => {
+      const layers = Math.max(0, ...voxels.map(v => v.y + 1));
+      const perLayer = Array.from({ length: layers }, (_, y) => voxels.filter(v => v.y === y).length);
+      return `층별로 세면 ${perLayer.map((n, y) => `${y + 1}층 ${n}개`).join(', ')}, 모두 ${voxels.length}개입니다.`;
+    }
+  },
+
+  'surface-area': {
+    label: '겉넓이',
+    title: '겉넓이 구하기',
+    prompt: '블록 한 면의 넓이가 1일 때, 겉넓이는 얼마일까요?',
+    stimulus: 'model',
+    ...numberQuestion(voxels => calculateStats(voxels).surfaceArea, ''),
+    explain: (voxels) => {
+      const faces = countFacesByAxis(voxels);
+      return `위·아래 ${faces.y} + 앞·뒤 ${faces.z} + 양옆 ${faces.x} = ${faces.x + faces.y + faces.z}입니다. 블록끼리 맞닿은 면은 겉넓이에 들어가지 않아요.`;
+    }
+  },
+
+  'top-view-choice': {
+    label: '위에서 본 모양 고르기',
+    title: '위에서 본 모양 찾기',
+    prompt: '위에서 내려다본 모양은 몇 번일까요?',
+    stimulus: 'model',
+    answerKind: 'choice',
+    getCorrectAnswer: (voxels, dims) => createTopViewChoices(voxels, dims).correctIndex,
+    isCorrect: (answer, voxels, dims) => answer === createTopViewChoices(voxels, dims).correctIndex,
+    formatCorrect: (voxels, dims) => `${createTopViewChoices(voxels, dims).correctIndex + 1}번`,
+    formatAnswer: (answer) => (typeof answer === 'number' ? `${answer + 1}번` : TIMEOUT_TEXT),
+    explain: (voxels, dims) =>
+      `위에서 본 모양은 ${createTopViewChoices(voxels, dims).correctIndex + 1}번입니다. 다른 보기는 뒤집혔거나 한 칸이 더해지거나 빠진 모양이에요.`
+  },
+
+  'top-view-numbers': {
+    label: '위에서 본 모양에 수 쓰기',
+    title: '위에서 본 모양에 수 쓰기',
+    prompt: '각 칸에 쌓인 블록이 몇 층인지 써 보세요. (빈 칸은 비워 두세요)',
+    stimulus: 'model',
+    answerKind: 'grid',
+    getCorrectAnswer: (voxels, dims) => generateTopViewNumbers(voxels, dims),
+    isCorrect: (answer, voxels, dims) =>
+      isGridAnswer(answer) &&
+      JSON.stringify(normalizeGrid(answer)) === JSON.stringify(generateTopViewNumbers(voxels, dims)),
+    // Rows from back to front, empty cells as '·'
+    formatCorrect: (voxels, dims) =>
+      generateTopViewNumbers(voxels, dims).map(row => row.map(n => n ?? '·').join(' ')).join(' / '),
+    formatAnswer: (answer, voxels, dims) => {
+      if (!isGridAnswer(answer)) return TIMEOUT_TEXT;
+      // Only cells that either grid fills are counted
+      const correct = generateTopViewNumbers(voxels, dims).flat();
+      const given = normalizeGrid(answer).flat();
+      const cells = correct.map((n, i) => [n, given[i]]).filter(([a, b]) => a !== null || b !== null);
+      const matches = cells.filter(([a, b]) => a === b).length;
+      return `${cells.length}칸 중 ${matches}칸 맞음`;
+    },
+    explain: () =>
+      '각 칸의 숫자는 그 자리에 쌓인 가장 높은 블록의 층수입니다. 아래 위에서 본 모양의 숫자와 비교해 보세요.'
+  },
+
+  'hidden-count': {
+    label: '보이지 않는 블록',
+    title: '숨은 블록 찾기',
+    prompt: '위, 앞, 오른쪽 어느 방향에서 봐도 보이지 않는 블록은 몇 개일까요?',
+    stimulus: 'model',
+    ...numberQuestion(voxels => findHiddenVoxels(voxels).length, '개', 0),
+    explain: (voxels) => {
+      const hidden = findHiddenVoxels(voxels).length;
+      return hidden === 0
+        ? '모든 블록이 위, 앞, 오른쪽 중 한 방향에서는 보입니다.'
+        : `빨갛게 표시된 ${hidden}개는 위, 앞, 오른쪽 모두에서 다른 블록에 가려집니다.`;
+    },
+    getHighlightIds: (voxels) => new Set(findHiddenVoxels(voxels).map(v => v.id))
+  },
+
+  build: {
+    label: '보고 쌓기',
+    title: '세 방향 모습대로 쌓기',
+    prompt: '위, 앞, 옆에서 본 모습이 모두 같아지도록 블록을 쌓아 보세요.',
+    stimulus: 'views',
+    answerKind: 'build',
+    getCorrectAnswer: (voxels) => voxels,
+    isCorrect: (answer, voxels, dims, options) => {
+      if (!isVoxelAnswer(answer)) return false;
+      // Every view the student was shown has to match
+      const match = compareProjections(voxels, answer, dims);
+      return options.views.every(direction => match[BLUEPRINT_VIEW_OF[direction]]) &&
+        (!options.exactCount || answer.length === voxels.length);
+    },
+    formatCorrect: (voxels, _dims, options) =>
+      options.exactCount ? `블록 ${voxels.length}개로 세 모습 맞추기` : '세 모습 모두 일치',
+    formatAnswer: (answer, voxels, dims, options) => {
+      if (!isVoxelAnswer(answer)) return TIMEOUT_TEXT;
+      // Only the views the student was shown
+      const match = compareProjections(voxels, answer, dims);
+      const shown = options.views.map(direction => match[BLUEPRINT_VIEW_OF[direction]]);
+      const matched = shown.filter(Boolean).length;
+      // Right shape facing the wrong way is worth pointing out
+      const turned = matched < shown.length && isSameShape(answer, voxels);
+      return `블록 ${answer.length}개, ${shown.length}방향 중 ${matched}방향 일치${turned ? ' (모양은 같고 방향이 달라요)' : ''}`;
+    },
+    explain: (voxels, dims) => {
+      const solution = solveProjections(project3DTo2D(voxels, dims), dims);
+      if (!solution.consistent || solution.min === solution.max) {
+        return `세 방향 모습을 모두 맞추려면 블록 ${voxels.length}개가 필요해요. 위에서 본 모양부터 바닥에 깔고 앞·옆 모습에 맞춰 높이를 올려 보세요.`;
+      }
+      return `같은 세 모습을 블록 ${solution.exact ? '' : '약 '}${solution.min}개 ~ ${solution.max}개로 만들 수 있어요. 문제의 모양은 ${voxels.length}개입니다.`;
+    }
+  }
+};
+
+export const QUESTION_TYPE_ORDER: QuestionType[] = ['count', 'surface-area', 'top-view-choice', 'top-view-numbers', 'hidden-count', 'build'];
+
+export const isQuestionType = (value: string): value is QuestionType =>
+  (QUESTION_TYPE_ORDER as string[]).includes(value);
@@ -0,0 +1,198 @@
+import { QuestionType } from '../types';
+import { QUESTION_TYPES, QUESTION_TYPE_ORDER } from './questionTypes';
+import { bytesToBase64Url, base64UrlToBytes } from './shareUtils';
+
+/**
+ * Result code format, version 1:
+ *
+ *   [version=1][question type (255 = quiz set)][puzzle id: 4 bytes]
+ *   [question count][correct count][elapsed seconds: 2 bytes]
+ *   [completed at, minutes since epoch: 4 bytes][hints used][score]
+ *   [name length][name, UTF-8][answer length][answer, UTF-8]
+ *   [checksum: 4 bytes]
+ *
+ * Written as "CM-" plus URL-safe base64. The checksum is a salted hash of
+ * everything before it, so edited codes are rejected. It only stops casual
+ * tampering; anyone reading this source can forge a code.
+ */
+const RESULT_CODE_VERSION = 1;
+const HEADER_LENGTH = 16;
+const RESULT_CODE_PREFIX = 'CM-';
+const CHECKSUM_SALT = 'cube-master/result/v1';
+const QUIZ_SET_TYPE = 255;
+const MAX_TEXT_BYTES = 60;
+
+export interface ResultRecord {
+  name: string;
+  puzzleId: string; // 8 hex digits identifying the quiz
+  questionType: QuestionType | 'set';
+  questionCount: number;
+  correctCount: number;
+  answer: string; // Formatted student answer (or score for sets)
+  elapsedSeconds: number;
+  completedAt: number; // Timestamp, minute precision
+  hintsUsed: number;
+  score: number; // 0-100 after hint penalties (average for sets)
+}
+
+// 32-bit FNV-1a over bytes
+const fnv1a = (bytes: ArrayLike<number>, seed = 0x811c9dc5): number => {
+  let hash = seed;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const textEncoder = new TextEncoder();
+
+const checksum = (bytes: ArrayLike<number>): number =>
+  fnv1a(bytes, fnv1a(textEncoder.encode(CHECKSUM_SALT)));
+
+const pushUint = (bytes: number[], value: number, size: number) => {
+  for (let i = size - 1; i >= 0; i--) bytes.push(Math.floor(value / 2 ** (8 * i)) & 0xff);
+};
+
+const readUint = (bytes: Uint8Array, offset: number, size: number): number => {
+  let value = 0;
+  for (let i = 0; i < size; i++) value = value * 256 + bytes[offset + i];
+  return value;
+};
+
+// UTF-8 bytes cut to a whole number of characters (code points, so
+// surrogate pairs such as emoji are never split)
+const encodeText = (text: string): Uint8Array => {
+  const chars = [...text];
+  let bytes = textEncoder.encode(text);
+  let end = chars.length;
+  while (bytes.length > MAX_TEXT_BYTES) {
+    end--;
+    bytes = textEncoder.encode(chars.slice(0, end).join(''));
+  }
+  return bytes;
+};
+
+/**
+ * Identifies a quiz by its share string, so the same structure and
+ * question type always get the same id
+ */
+export const getPuzzleId = (encodedQuiz: string): string => {
+  return fnv1a(textEncoder.encode(encodedQuiz)).toString(16).padStart(8, '0').toUpperCase();
+};
+
+/**
+ * Builds a tamper-evident code for a finished quiz
+ */
+export const createResultCode = (record: ResultRecord): string => {
+  const bytes: number[] = [
+    RESULT_CODE_VERSION,
+    record.questionType === 'set' ? QUIZ_SET_TYPE : QUESTION_TYPE_ORDER.indexOf(record.questionType)
+  ];
+  pushUint(bytes, parseInt(record.puzzleId, 16) || 0, 4);
+  bytes.push(Math.min(record.questionCount, 255), Math.min(record.correctCount, 255));
+  pushUint(bytes, Math.min(Math.max(0, Math.round(record.elapsedSeconds)), 0xffff), 2);
+  pushUint(bytes, Math.floor(record.completedAt / 60000), 4);
+  bytes.push(Math.min(record.hintsUsed, 255), Math.min(Math.max(0, Math.round(record.score)), 255));
+
+  [record.name.trim(), record.answer].forEach(text => {
+    const encoded = encodeText(text);
+    bytes.push(encoded.length, ...encoded);
+  });
+
+  pushUint(bytes, checksum(bytes), 4);
+  return RESULT_CODE_PREFIX + bytesToBase64Url(bytes);
+};
+
+/**
+ * Reads a result code. Returns null if malformed or edited
+ */
+export const parseResultCode = (code: string): ResultRecord | null => {
+  try {
+    const body = code.trim().replace(/^CM-/i, '');
+    if (!body) return null;
+    const bytes = base64UrlToBytes(body);
+    if (bytes[0] !== RESULT_CODE_VERSION) return null;
+    if (bytes.length < HEADER_LENGTH + 6) return null;
+
+    const payload = bytes.subarray(0, bytes.length - 4);
+    if (checksum(payload) !== readUint(bytes, bytes.length - 4, 4)) return null;
+
+    const typeIndex = bytes[1];
+    const questionType = typeIndex === QUIZ_SET_TYPE ? 'set' : QUESTION_TYPE_ORDER[typeIndex];
+    if (!questionType) return null;
+
+    const decoder = new TextDecoder();
+    let offset = HEADER_LENGTH;
+    const readText = (): string => {
+      const length = bytes[offset];
+      const text = decoder.decode(bytes.subarray(offset + 1, offset + 1 + length));
+      offset += 1 + length;
+      return text;
+    };
+    const name = readText();
+    const answer = readText();
+    if (offset !== payload.length) return null;
+
+    return {
+      name,
+      puzzleId: readUint(bytes, 2, 4).toString(16).padStart(8, '0').toUpperCase(),
+      questionType,
+      questionCount: bytes[6],
+      correctCount: bytes[7],
+      answer,
+      elapsedSeconds: readUint(bytes, 8, 2),
+      completedAt: readUint(bytes, 10, 4) * 60000,
+      hintsUsed: bytes[14],
+      score: bytes[15]
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads every code in a block of text (one per line, or separated by
+ * spaces/commas). Codes that fail to parse are returned separately.
+ */
+export const parseResultCodes = (text: string): { records: { code: string; record: ResultRecord }[]; invalid: string[] } => {
+  const records: { code: string; record: ResultRecord }[] = [];
+  const invalid: string[] = [];
+
+  text.split(/[\s,;]+/).filter(Boolean).forEach(code => {
+    const record = parseResultCode(code);
+    if (record) records.push({ code, record });
+    else invalid.push(code);
+  });
+
+  return { records, invalid };
+};
+
+export const getResultTypeLabel = (type: ResultRecord['questionType']): string =>
+  type === 'set' ? '퀴즈 세트' : QUESTION_TYPES[type].label;
+
+// Student-typed text starting like a formula is kept as plain text
+const escapeCsv = (value: string | number): string => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Class results as CSV (with a BOM so spreadsheet apps read Korean names)
+ */
+export const resultsToCsv = (records: ResultRecord[]): string => {
+  const header = ['이름', '문제 ID', '문제 유형', '답', '맞힌 수', '문제 수', '힌트 수', '점수', '걸린 시간(초)', '제출 시각'];
+  const rows = records.map(r => [
+    r.name,
+    r.puzzleId,
+    getResultTypeLabel(r.questionType),
+    r.answer,
+    r.correctCount,
+    r.questionCount,
+    r.hintsUsed,
+    Math.round(r.score),
+    r.elapsedSeconds,
+    new Date(r.completedAt).toLocaleString('ko-KR')
+  ]);
+  return '\uFEFF' + [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+};
@@ -0,0 +1,111 @@
+import { Voxel, Vector3 } from '../types';
+import { getVoxelSet } from './voxelEngine';
+
+export interface ShapeOptions {
+  mirrors?: boolean; // Count mirror images as the same shape
+}
+
+export interface CanonicalShape {
+  cells: Vector3[]; // Sorted, moved so the smallest coordinate on each axis is 0
+  key: string; // Cells as "x,y,z;x,y,z;..." — equal keys mean the same shape
+}
+
+interface Orientation {
+  axes: [number, number, number]; // Source axis for each output axis
+  signs: [number, number, number];
+  mirrored: boolean;
+}
+
+const PERMUTATIONS: [number, number, number][] = [
+  [0, 1, 2], [1, 2, 0], [2, 0, 1], // Even
+  [0, 2, 1], [2, 1, 0], [1, 0, 2] // Odd
+];
+
+/*
+ * The 48 axis-aligned orientations (signed axis permutations). Those with
+ * determinant +1 are the 24 rotations; the others are their mirror images.
+ */
+const ORIENTATIONS: Orientation[] = PERMUTATIONS.flatMap((axes, p) =>
+  [-1, 1].flatMap(sx => [-1, 1].flatMap(sy => [-1, 1].map(sz => {
+    const signs: [number, number, number] = [sx, sy, sz];
+    const determinant = (p < 3 ? 1 : -1) * sx * sy * sz;
+    return { axes, signs, mirrored: determinant < 0 };
+  })))
+);
+
+const compareCells = (a: Vector3, b: Vector3): number => a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+
+const compareCellLists = (a: Vector3[], b: Vector3[]): number => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const order = compareCells(a[i], b[i]);
+    if (order !== 0) return order;
+  }
+  return a.length - b.length;
+};
+
+const toKey = (cells: Vector3[]): string => cells.map(c => c.join(',')).join(';');
+
+// Sorted cells of one orientation, moved to the origin
+const orient = (points: Vector3[], { axes, signs }: Orientation): Vector3[] => {
+  const turned = points.map(p => [
+    p[axes[0]] * signs[0],
+    p[axes[1]] * signs[1],
+    p[axes[2]] * signs[2]
+  ] as Vector3);
+  const min = [0, 1, 2].map(i => Math.min(...turned.map(p => p[i])));
+  return turned
+    .map(p => [p[0] - min[0], p[1] - min[1], p[2] - min[2]] as Vector3)
+    .sort(compareCells);
+};
+
+/**
+ * Canonical form of a structure, ignoring position, colors and which of the
+ * 24 rotations it is in (and mirror images too, with `mirrors`). Of all
+ * orientations, the one whose sorted cell list comes first is chosen.
+ */
+export const canonicalizeShape = (voxels: Voxel[], options: ShapeOptions = {}): CanonicalShape => {
+  // Duplicate cells count once
+  const points = [...new Set(voxels.map(v => `${v.x},${v.y},${v.z}`))]
+    .map(key => key.split(',').map(Number) as Vector3);
+  if (points.length === 0) return { cells: [], key: '' };
+
+  let best: Vector3[] | null = null;
+  ORIENTATIONS.forEach(orientation => {
+    if (orientation.mirrored && !options.mirrors) return;
+    const cells = orient(points, orientation);
+    if (!best || compareCellLists(cells, best) < 0) best = cells;
+  });
+
+  return { cells: best!, key: toKey(best!) };
+};
+
+/**
+ * Orders structures by shape: fewer blocks first, then by canonical form.
+ * Returns 0 exactly when both are the same shape.
+ */
+export const compareShapes = (a: Voxel[], b: Voxel[], options: ShapeOptions = {}): number => {
+  const shapeA = canonicalizeShape(a, options);
+  const shapeB = canonicalizeShape(b, options);
+  return shapeA.cells.length - shapeB.cells.length || compareCellLists(shapeA.cells, shapeB.cells);
+};
+
+export const isSameShape = (a: Voxel[], b: Voxel[], options: ShapeOptions = {}): boolean => {
+  // Cheap rejection before trying orientations
+  if (getVoxelSet(a).size !== getVoxelSet(b).size) return false;
+  return compareShapes(a, b, options) === 0;
+};
+
+/**
+ * Short hash of the canonical form ("<blocks>-<fnv1a hex>"), stable across
+ * sessions and browsers. Equal shapes always share a hash; use `isSameShape`
+ * to rule out the rare collision.
+ */
+export const getShapeHash = (voxels: Voxel[], options: ShapeOptions = {}): string => {
+  const { cells, key } = canonicalizeShape(voxels, options);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${cells.length}-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+};
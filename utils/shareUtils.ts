@@ -1,47 +1,237 @@
-import { Voxel } from '../types';
+import { Voxel, GridDimensions, QuizShareOptions, QuizSetItem } from '../types';
+import { COLORS, DEFAULT_DIMENSIONS, DEFAULT_VIEWS, MIN_DIMENSION, MAX_DIMENSION } from '../constants';
+import { isQuestionType, QUESTION_TYPE_ORDER } from './questionTypes';
+import { viewsToMask, maskToViews, parseViews, isDefaultViews } from './views';
 
 /**
- * Encodes voxel data to a Base64 string for URL sharing
- * Compact format: stores only x, y, z coordinates and optional color
+ * Binary share format, version 1 (all integers are unsigned bytes):
+ *
+ *   [version=1][width][depth][height][paletteSize N][N x (R, G, B)]
+ *   followed by a bit stream:
+ *     - occupancy bitset, one bit per cell, ordered y -> z -> x
+ *     - palette index per occupied cell, ceil(log2 N) bits each (0 bits if N <= 1)
+ *
+ * Quiz sets (version 2) hold several questions in one link:
+ *
+ *   [version=2][itemCount]
+ *   per item: [question type][flags][timer hi][timer lo]
+ *             [min hi][min lo][max hi][max lo]   (only if flag bit 1 is set)
+ *             [view mask]                        (only if flag bit 3 is set)
+ *             [structure bytes as in version 1, without the version byte]
+ *
+ *   flags: bit 0 = show view numbers, bit 1 = accept a count range,
+ *          bit 2 = require the exact block count,
+ *          bit 3 = views other than the default Top/Front/Right,
+ *          bit 4 = color views.
+ *   View mask bits follow VIEW_DIRECTIONS (append-only).
+ *   Question types are indexes into QUESTION_TYPE_ORDER (append-only).
+ *
+ * The bytes are written as URL-safe base64 without padding.
+ * Legacy links (base64 of URI-encoded JSON) always start with '%' (0x25),
+ * which never collides with a version byte.
  */
-export const encodeVoxels = (voxels: Voxel[]): string => {
+const SHARE_FORMAT_VERSION = 1;
+const QUIZ_SET_FORMAT_VERSION = 2;
+const MAX_QUIZ_SET_ITEMS = 255;
+const LEGACY_JSON_MARKER = 0x25; // '%' from encodeURIComponent('[')
+
+export interface SharedPuzzle {
+  voxels: Voxel[];
+  // Null for legacy links, which did not carry a grid size
+  dimensions: GridDimensions | null;
+}
+
+// --- Bit stream helpers ---
+
+const createBitWriter = () => {
+  const bytes: number[] = [];
+  let bitCount = 0;
+
+  const write = (value: number, bits: number) => {
+    for (let i = bits - 1; i >= 0; i--) {
+      if (bitCount % 8 === 0) bytes.push(0);
+      if ((value >> i) & 1) {
+        bytes[bytes.length - 1] |= 0x80 >> (bitCount % 8);
+      }
+      bitCount++;
+    }
+  };
+
+  return { write, bytes };
+};
+
+const createBitReader = (bytes: Uint8Array, startByte: number) => {
+  let bitPos = startByte * 8;
+
+  // Byte offset just after the last bit read
+  const endByte = (): number => Math.ceil(bitPos / 8);
+
+  const read = (bits: number): number => {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const byte = bytes[bitPos >> 3];
+      if (byte === undefined) throw new Error('Unexpected end of share data');
+      value = (value << 1) | ((byte >> (7 - (bitPos % 8))) & 1);
+      bitPos++;
+    }
+    return value;
+  };
+
+  return { read, endByte };
+};
+
+const bitsForPaletteSize = (size: number): number => {
+  return size <= 1 ? 0 : Math.ceil(Math.log2(size));
+};
+
+// --- Base64url helpers ---
+
+export const bytesToBase64Url = (bytes: ArrayLike<number>): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const base64UrlToBytes = (encoded: string): Uint8Array => {
+  // Accept both alphabets; URLSearchParams turns a raw '+' into a space
+  let base64 = encoded.replace(/ /g, '+').replace(/-/g, '+').replace(/_/g, '/');
+  while (base64.length % 4 !== 0) base64 += '=';
+
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+const rgbToHex = (r: number, g: number, b: number): string => {
+  return '#' + [r, g, b].map(n => n.toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+/**
+ * Encodes one structure (grid size, palette and cells) without a version byte.
+ * Voxels outside the given dimensions are dropped.
+ */
+const encodeStructureBytes = (voxels: Voxel[], dims: GridDimensions): number[] => {
+  const { width, depth, height } = dims;
+
+  // Occupancy lookup: cell index -> voxel color
+  const cells = new Map<number, string>();
+  voxels.forEach(v => {
+    if (v.x < 0 || v.x >= width || v.y < 0 || v.y >= height || v.z < 0 || v.z >= depth) return;
+    const index = (v.y * depth + v.z) * width + v.x;
+    cells.set(index, (v.color || COLORS.voxelDefault).toUpperCase());
+  });
+
+  // Palette in first-seen order
+  const palette: string[] = [];
+  const sortedCells = [...cells.entries()].sort((a, b) => a[0] - b[0]);
+  sortedCells.forEach(([, color]) => {
+    if (!palette.includes(color)) palette.push(color);
+  });
+
+  const header = [width, depth, height, palette.length];
+  palette.forEach(color => header.push(...hexToRgb(color)));
+
+  const writer = createBitWriter();
+  for (let i = 0; i < width * depth * height; i++) {
+    writer.write(cells.has(i) ? 1 : 0, 1);
+  }
+  const indexBits = bitsForPaletteSize(palette.length);
+  sortedCells.forEach(([, color]) => {
+    writer.write(palette.indexOf(color), indexBits);
+  });
+
+  return [...header, ...writer.bytes];
+};
+
+/**
+ * Encodes voxel data to a compact URL-safe string for sharing.
+ * Voxels outside the given dimensions are dropped.
+ */
+export const encodeVoxels = (voxels: Voxel[], dims: GridDimensions): string => {
   try {
-    // Create compact representation
-    const compactData = voxels.map(v => ({
-      x: v.x,
-      y: v.y,
-      z: v.z,
-      c: v.color || undefined // 'c' for color (optional)
-    }));
-
-    const jsonString = JSON.stringify(compactData);
-    // Use btoa for Base64 encoding (works in browser)
-    const base64 = btoa(encodeURIComponent(jsonString));
-    return base64;
+    return bytesToBase64Url([SHARE_FORMAT_VERSION, ...encodeStructureBytes(voxels, dims)]);
   } catch (error) {
     console.error('Failed to encode voxels:', error);
     return '';
   }
 };
 
+// Decodes links created before the binary format (JSON array of {x, y, z, c})
+const decodeLegacyJson = (encoded: string): Voxel[] | null => {
+  const jsonString = decodeURIComponent(atob(encoded.replace(/ /g, '+')));
+  const compactData = JSON.parse(jsonString);
+
+  // Validate and reconstruct voxels
+  if (!Array.isArray(compactData)) return null;
+
+  return compactData.map((v: { x: number; y: number; z: number; c?: string }) => ({
+    x: v.x,
+    y: v.y,
+    z: v.z,
+    id: `${v.x},${v.y},${v.z}`,
+    color: v.c
+  }));
+};
+
+// Reads one structure starting at `offset`; also returns where it ends
+const decodeStructureBytes = (
+  bytes: Uint8Array,
+  offset: number
+): { voxels: Voxel[]; dimensions: GridDimensions; end: number } | null => {
+  const [width, depth, height, paletteSize] = bytes.subarray(offset, offset + 4);
+  if ([width, depth, height].some(n => !n || n < MIN_DIMENSION || n > MAX_DIMENSION)) return null;
+
+  const palette: string[] = [];
+  for (let i = 0; i < paletteSize; i++) {
+    const start = offset + 4 + i * 3;
+    palette.push(rgbToHex(bytes[start], bytes[start + 1], bytes[start + 2]));
+  }
+
+  const reader = createBitReader(bytes, offset + 4 + paletteSize * 3);
+  const occupied: number[] = [];
+  for (let i = 0; i < width * depth * height; i++) {
+    if (reader.read(1)) occupied.push(i);
+  }
+
+  const indexBits = bitsForPaletteSize(paletteSize);
+  const voxels = occupied.map(index => {
+    const x = index % width;
+    const z = Math.floor(index / width) % depth;
+    const y = Math.floor(index / (width * depth));
+    const color = palette[reader.read(indexBits)];
+    return { x, y, z, id: `${x},${y},${z}`, color };
+  });
+
+  return { voxels, dimensions: { width, depth, height }, end: reader.endByte() };
+};
+
+const decodeBinary = (bytes: Uint8Array): SharedPuzzle | null => {
+  if (bytes[0] !== SHARE_FORMAT_VERSION) return null;
+  const structure = decodeStructureBytes(bytes, 1);
+  return structure ? { voxels: structure.voxels, dimensions: structure.dimensions } : null;
+};
+
 /**
- * Decodes a Base64 string back to voxel data
+ * Decodes a shared puzzle string (binary or legacy JSON format)
  */
-export const decodeVoxels = (encoded: string): Voxel[] | null => {
+export const decodePuzzle = (encoded: string): SharedPuzzle | null => {
   try {
-    const jsonString = decodeURIComponent(atob(encoded));
-    const compactData = JSON.parse(jsonString);
-
-    // Validate and reconstruct voxels
-    if (!Array.isArray(compactData)) return null;
-
-    return compactData.map((v: { x: number; y: number; z: number; c?: string }) => ({
-      x: v.x,
-      y: v.y,
-      z: v.z,
-      id: `${v.x},${v.y},${v.z}`,
-      color: v.c
-    }));
+    const bytes = base64UrlToBytes(encoded);
+    if (bytes[0] === LEGACY_JSON_MARKER) {
+      const voxels = decodeLegacyJson(encoded);
+      return voxels ? { voxels, dimensions: null } : null;
+    }
+    return decodeBinary(bytes);
   } catch (error) {
     console.error('Failed to decode voxels:', error);
     return null;
@@ -49,14 +239,124 @@ export const decodeVoxels = (encoded: string): Voxel[] | null => {
 };
 
 /**
- * Generates a shareable quiz URL with encoded voxel data
+ * Encodes an ordered list of questions into one URL-safe string
  */
-export const generateQuizUrl = (voxels: Voxel[]): string => {
-  const encoded = encodeVoxels(voxels);
+export const encodeQuizSet = (items: QuizSetItem[]): string => {
+  try {
+    const bytes = [QUIZ_SET_FORMAT_VERSION, Math.min(items.length, MAX_QUIZ_SET_ITEMS)];
+    items.slice(0, MAX_QUIZ_SET_ITEMS).forEach(item => {
+      const { questionType, acceptRange, showNumbers, exactCount, views, colorViews } = item.options;
+      const customViews = !isDefaultViews(views);
+      const timer = Math.min(Math.max(0, Math.round(item.timeLimit)), 0xffff);
+      bytes.push(
+        QUESTION_TYPE_ORDER.indexOf(questionType),
+        (showNumbers ? 1 : 0) | (acceptRange ? 2 : 0) | (exactCount ? 4 : 0) | (customViews ? 8 : 0) | (colorViews ? 16 : 0),
+        timer >> 8,
+        timer & 0xff
+      );
+      if (acceptRange) {
+        // 8x8x8 boards hold up to 512 blocks
+        const min = Math.min(Math.max(0, acceptRange.min), 0xffff);
+        const max = Math.min(Math.max(0, acceptRange.max), 0xffff);
+        bytes.push(min >> 8, min & 0xff, max >> 8, max & 0xff);
+      }
+      if (customViews) bytes.push(viewsToMask(views));
+      bytes.push(...encodeStructureBytes(item.voxels, item.dimensions));
+    });
+    return bytesToBase64Url(bytes);
+  } catch (error) {
+    console.error('Failed to encode quiz set:', error);
+    return '';
+  }
+};
+
+/**
+ * Decodes a quiz set string. Returns null if malformed
+ */
+export const decodeQuizSet = (encoded: string): QuizSetItem[] | null => {
+  try {
+    const bytes = base64UrlToBytes(encoded);
+    if (bytes[0] !== QUIZ_SET_FORMAT_VERSION) return null;
+
+    const items: QuizSetItem[] = [];
+    let offset = 2;
+    for (let i = 0; i < bytes[1]; i++) {
+      const questionType = QUESTION_TYPE_ORDER[bytes[offset]];
+      const flags = bytes[offset + 1];
+      const timeLimit = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      if (!questionType || flags === undefined || isNaN(timeLimit)) return null;
+      offset += 4;
+
+      let acceptRange: QuizShareOptions['acceptRange'] = null;
+      if (flags & 2) {
+        acceptRange = {
+          min: (bytes[offset] << 8) | bytes[offset + 1],
+          max: (bytes[offset + 2] << 8) | bytes[offset + 3]
+        };
+        offset += 4;
+      }
+
+      let views = DEFAULT_VIEWS;
+      if (flags & 8) {
+        views = maskToViews(bytes[offset]);
+        offset += 1;
+      }
+
+      const structure = decodeStructureBytes(bytes, offset);
+      if (!structure) return null;
+      offset = structure.end;
+
+      items.push({
+        voxels: structure.voxels,
+        dimensions: structure.dimensions,
+        options: {
+          questionType,
+          acceptRange,
+          showNumbers: (flags & 1) === 1,
+          exactCount: (flags & 4) === 4,
+          views,
+          colorViews: (flags & 16) === 16
+        },
+        timeLimit
+      });
+    }
+    return items.length > 0 ? items : null;
+  } catch (error) {
+    console.error('Failed to decode quiz set:', error);
+    return null;
+  }
+};
+
+/**
+ * Parses a "WxDxH" string. Returns null if malformed or out of range
+ */
+export const parseDimensions = (value: string): GridDimensions | null => {
+  const parts = value.split('x').map(part => parseInt(part, 10));
+  if (parts.length !== 3) return null;
+  if (parts.some(n => isNaN(n) || n < MIN_DIMENSION || n > MAX_DIMENSION)) return null;
+
+  const [width, depth, height] = parts;
+  return { width, depth, height };
+};
+
+/**
+ * Generates a shareable quiz URL with encoded voxel data.
+ * The grid size travels inside the encoded puzzle.
+ */
+export const generateQuizUrl = (voxels: Voxel[], dims: GridDimensions): string => {
+  const encoded = encodeVoxels(voxels, dims);
   const baseUrl = window.location.origin + window.location.pathname;
   return `${baseUrl}?puzzle=${encoded}`;
 };
 
+/**
+ * Generates a shareable URL holding a whole quiz set
+ */
+export const generateQuizSetUrl = (items: QuizSetItem[]): string => {
+  const baseUrl = window.location.origin + window.location.pathname;
+  return `${baseUrl}?set=${encodeQuizSet(items)}`;
+};
+
 /**
  * Parses quiz data from current URL
  * Returns the encoded puzzle string if present
@@ -66,6 +366,14 @@ export const parseQuizFromUrl = (): string | null => {
   return urlParams.get('puzzle');
 };
 
+/**
+ * Returns the encoded quiz set string from the current URL, if present
+ */
+export const parseQuizSetFromUrl = (): string | null => {
+  const urlParams = new URLSearchParams(window.location.search);
+  return urlParams.get('set');
+};
+
 /**
  * Parses timer value from current URL
  * Returns the timer in seconds, or 0 if not present
@@ -80,6 +388,69 @@ export const parseTimerFromUrl = (): number => {
   return 0;
 };
 
+/**
+ * Parses grid dimensions from current URL (used by JSON-format links)
+ * Returns the default board size if not present or invalid
+ */
+export const parseDimensionsFromUrl = (): GridDimensions => {
+  const urlParams = new URLSearchParams(window.location.search);
+  const sizeParam = urlParams.get('size');
+  return (sizeParam && parseDimensions(sizeParam)) || DEFAULT_DIMENSIONS;
+};
+
+/**
+ * Builds the URL query suffix for quiz share options
+ */
+export const formatShareOptions = (options: QuizShareOptions): string => {
+  let suffix = '';
+  if (options.questionType !== 'count') {
+    suffix += `&q=${options.questionType}`;
+  }
+  if (options.acceptRange) {
+    suffix += `&accept=${options.acceptRange.min}-${options.acceptRange.max}`;
+  }
+  if (options.showNumbers) {
+    suffix += '&numbers=1';
+  }
+  if (options.exactCount) {
+    suffix += '&exact=1';
+  }
+  if (!isDefaultViews(options.views)) {
+    suffix += `&views=${options.views.join(',')}`;
+  }
+  if (options.colorViews) {
+    suffix += '&colors=1';
+  }
+  return suffix;
+};
+
+/**
+ * Parses quiz share options from current URL
+ */
+export const parseShareOptionsFromUrl = (): QuizShareOptions => {
+  const urlParams = new URLSearchParams(window.location.search);
+
+  let acceptRange: QuizShareOptions['acceptRange'] = null;
+  const acceptParam = urlParams.get('accept');
+  if (acceptParam) {
+    const [min, max] = acceptParam.split('-').map(n => parseInt(n, 10));
+    if (!isNaN(min) && !isNaN(max) && min > 0 && min <= max) {
+      acceptRange = { min, max };
+    }
+  }
+
+  const typeParam = urlParams.get('q');
+
+  return {
+    questionType: typeParam && isQuestionType(typeParam) ? typeParam : 'count',
+    acceptRange,
+    showNumbers: urlParams.get('numbers') === '1',
+    exactCount: urlParams.get('exact') === '1',
+    views: parseViews(urlParams.get('views')) ?? DEFAULT_VIEWS,
+    colorViews: urlParams.get('colors') === '1'
+  };
+};
+
 /**
  * Copies text to clipboard
  */
@@ -112,6 +483,14 @@ export const copyToClipboard = async (text: string): Promise<boolean> => {
 export const clearQuizFromUrl = (): void => {
   const url = new URL(window.location.href);
   url.searchParams.delete('puzzle');
+  url.searchParams.delete('set');
   url.searchParams.delete('timer');
+  url.searchParams.delete('size');
+  url.searchParams.delete('accept');
+  url.searchParams.delete('numbers');
+  url.searchParams.delete('q');
+  url.searchParams.delete('exact');
+  url.searchParams.delete('views');
+  url.searchParams.delete('colors');
   window.history.replaceState({}, '', url.toString());
 };
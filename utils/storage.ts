@@ -0,0 +1,173 @@
+import { Voxel, GridState, GridDimensions, SavedStructure, ViewDirection } from '../types';
+import { DEFAULT_VIEWS } from '../constants';
+import { encodeVoxels, decodePuzzle } from './shareUtils';
+import { heightsFromVoxels } from './voxelEngine';
+import { parseViews } from './views';
+
+const AUTOSAVE_KEY = 'cube-master:autosave';
+const LIBRARY_KEY = 'cube-master:library';
+const STUDENT_NAME_KEY = 'cube-master:student-name';
+
+/**
+ * Editor state restored after a page refresh
+ */
+export interface AutosaveData {
+  voxels: Voxel[];
+  blueprint: GridState;
+  heights: number[][];
+  dimensions: GridDimensions;
+  selectedColor: string;
+  views: ViewDirection[];
+}
+
+// Stored shapes: voxels use the compact share encoding (it carries the grid size)
+interface StoredAutosave {
+  puzzle: string;
+  blueprint: GridState;
+  heights?: number[][]; // Missing in saves from before height maps
+  selectedColor: string;
+  views?: string; // Comma-separated view directions
+}
+
+interface StoredStructure {
+  id: string;
+  name: string;
+  puzzle: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const readJson = <T,>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch (error) {
+    console.error(`Failed to read ${key}:`, error);
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown): boolean => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (error) {
+    // Quota exceeded or storage disabled (private browsing)
+    console.error(`Failed to write ${key}:`, error);
+    return false;
+  }
+};
+
+// Checks that a stored blueprint matches the grid size it is restored into
+const isBlueprintValid = (grids: GridState | undefined, dims: GridDimensions): boolean => {
+  return (
+    !!grids &&
+    grids.top?.length === dims.depth &&
+    grids.top.every(row => row.length === dims.width) &&
+    grids.front?.length === dims.height &&
+    grids.front.every(row => row.length === dims.width) &&
+    grids.side?.length === dims.height &&
+    grids.side.every(row => row.length === dims.depth)
+  );
+};
+
+const isHeightMapValid = (heights: number[][] | undefined, dims: GridDimensions): heights is number[][] => {
+  return (
+    Array.isArray(heights) &&
+    heights.length === dims.depth &&
+    heights.every(row =>
+      Array.isArray(row) &&
+      row.length === dims.width &&
+      row.every(h => Number.isInteger(h) && h >= 0 && h <= dims.height)
+    )
+  );
+};
+
+/**
+ * Loads the autosaved editor state, or null if there is none
+ */
+export const loadAutosave = (): AutosaveData | null => {
+  const stored = readJson<StoredAutosave>(AUTOSAVE_KEY);
+  if (!stored) return null;
+
+  const puzzle = decodePuzzle(stored.puzzle);
+  if (!puzzle || !puzzle.dimensions) return null;
+  if (!isBlueprintValid(stored.blueprint, puzzle.dimensions)) return null;
+
+  return {
+    voxels: puzzle.voxels,
+    blueprint: stored.blueprint,
+    heights: isHeightMapValid(stored.heights, puzzle.dimensions)
+      ? stored.heights
+      : heightsFromVoxels(puzzle.voxels, puzzle.dimensions),
+    dimensions: puzzle.dimensions,
+    selectedColor: stored.selectedColor,
+    views: parseViews(stored.views) ?? DEFAULT_VIEWS
+  };
+};
+
+/**
+ * Saves the editor state so it survives a page refresh
+ */
+export const saveAutosave = (data: AutosaveData): void => {
+  writeJson(AUTOSAVE_KEY, {
+    puzzle: encodeVoxels(data.voxels, data.dimensions),
+    blueprint: data.blueprint,
+    heights: data.heights,
+    selectedColor: data.selectedColor,
+    views: data.views.join(',')
+  } satisfies StoredAutosave);
+};
+
+/**
+ * Loads the "My structures" library, newest first
+ */
+export const loadLibrary = (): SavedStructure[] => {
+  const stored = readJson<StoredStructure[]>(LIBRARY_KEY);
+  if (!Array.isArray(stored)) return [];
+
+  return stored.flatMap(item => {
+    const puzzle = decodePuzzle(item.puzzle);
+    if (!puzzle || !puzzle.dimensions) return [];
+    return [{
+      id: item.id,
+      name: item.name,
+      voxels: puzzle.voxels,
+      dimensions: puzzle.dimensions,
+      createdAt: item.createdAt,
+      updatedAt: item.updatedAt
+    }];
+  });
+};
+
+/**
+ * Persists the whole library. Returns false if browser storage is full
+ */
+export const saveLibrary = (items: SavedStructure[]): boolean => {
+  return writeJson(LIBRARY_KEY, items.map(item => ({
+    id: item.id,
+    name: item.name,
+    puzzle: encodeVoxels(item.voxels, item.dimensions),
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt
+  } satisfies StoredStructure)));
+};
+
+/**
+ * Creates a unique id for a new library item
+ */
+export const createStructureId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+/**
+ * Name the student last entered for result codes
+ */
+export const loadStudentName = (): string => {
+  const name = readJson<unknown>(STUDENT_NAME_KEY);
+  return typeof name === 'string' ? name : '';
+};
+
+export const saveStudentName = (name: string): void => {
+  writeJson(STUDENT_NAME_KEY, name);
+};
@@ -0,0 +1,68 @@
+import { Voxel, GridDimensions, ViewDirection } from '../types';
+import { COLORS, DEFAULT_VIEWS } from '../constants';
+import { projectView, generateTopViewNumbers } from './voxelEngine';
+
+export interface ViewDefinition {
+  label: string; // Grid title, e.g. "Front View"
+  short: string; // Korean badge and picker text
+  xAxisLabel: string;
+  yAxisLabel: string;
+}
+
+// Picker order; also the bit order of the quiz set view mask (append-only)
+export const VIEW_DIRECTIONS: ViewDirection[] = ['top', 'front', 'right', 'back', 'left', 'bottom'];
+
+export const VIEWS: Record<ViewDirection, ViewDefinition> = {
+  top: { label: 'Top View', short: '위', xAxisLabel: 'X (Right)', yAxisLabel: 'Z (Depth)' },
+  front: { label: 'Front View', short: '앞', xAxisLabel: 'X (Right)', yAxisLabel: 'Y (Up)' },
+  right: { label: 'Right View', short: '오른쪽', xAxisLabel: 'Z (Reversed)', yAxisLabel: 'Y (Up)' },
+  back: { label: 'Back View', short: '뒤', xAxisLabel: 'X (Reversed)', yAxisLabel: 'Y (Up)' },
+  left: { label: 'Left View', short: '왼쪽', xAxisLabel: 'Z (Depth)', yAxisLabel: 'Y (Up)' },
+  bottom: { label: 'Bottom View', short: '아래', xAxisLabel: 'X (Reversed)', yAxisLabel: 'Z (Depth)' }
+};
+
+export const isViewDirection = (value: string): value is ViewDirection =>
+  (VIEW_DIRECTIONS as string[]).includes(value);
+
+/**
+ * View numbers for one direction: column heights for the Top View,
+ * blocks along the line of sight for every other view
+ */
+export const getViewNumbers = (voxels: Voxel[], dims: GridDimensions, direction: ViewDirection): (number | null)[][] =>
+  direction === 'top' ? generateTopViewNumbers(voxels, dims) : projectView(voxels, dims, direction).counts;
+
+/**
+ * Color of the block seen in each cell of a view ("what you actually see"),
+ * or null where the view is empty
+ */
+export const getViewColors = (voxels: Voxel[], dims: GridDimensions, direction: ViewDirection): (string | null)[][] =>
+  projectView(voxels, dims, direction).nearest.map(row =>
+    row.map(voxel => (voxel ? voxel.color ?? COLORS.voxelDefault : null))
+  );
+
+// Adds or removes a view, keeping picker order and at least one view
+export const toggleView = (views: ViewDirection[], direction: ViewDirection): ViewDirection[] => {
+  if (views.includes(direction)) {
+    return views.length > 1 ? views.filter(v => v !== direction) : views;
+  }
+  return VIEW_DIRECTIONS.filter(v => v === direction || views.includes(v));
+};
+
+// Bit i set = VIEW_DIRECTIONS[i] shown
+export const viewsToMask = (views: ViewDirection[]): number =>
+  VIEW_DIRECTIONS.reduce((mask, direction, i) => (views.includes(direction) ? mask | (1 << i) : mask), 0);
+
+export const maskToViews = (mask: number): ViewDirection[] => {
+  const views = VIEW_DIRECTIONS.filter((_, i) => (mask >> i) & 1);
+  return views.length > 0 ? views : DEFAULT_VIEWS;
+};
+
+// "top,back" for URLs and storage; unknown names are dropped
+export const parseViews = (value: string | null | undefined): ViewDirection[] | null => {
+  if (!value) return null;
+  const views = VIEW_DIRECTIONS.filter(direction => value.split(',').includes(direction));
+  return views.length > 0 ? views : null;
+};
+
+export const isDefaultViews = (views: ViewDirection[]): boolean =>
+  views.length === DEFAULT_VIEWS.length && DEFAULT_VIEWS.every(v => views.includes(v));
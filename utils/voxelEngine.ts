@@ -1,5 +1,4 @@
-import { GRID_SIZE, MAX_HEIGHT } from '../constants';
-import { Voxel, GridState, Stats } from '../types';
+import { Voxel, GridState, GridDimensions, Stats, ViewDirection, Vector3 } from '../types';
 
 /**
  * Converts a Voxel array to a Set of coordinate strings "x,y,z" for fast lookup
@@ -8,6 +7,61 @@ export const getVoxelSet = (voxels: Voxel[]): Set<string> => {
   return new Set(voxels.map(v => `${v.x},${v.y},${v.z}`));
 };
 
+/**
+ * Checks whether a cell lies inside the building area
+ */
+export const isInBounds = (x: number, y: number, z: number, dims: GridDimensions): boolean => {
+  return x >= 0 && x < dims.width && y >= 0 && y < dims.height && z >= 0 && z < dims.depth;
+};
+
+/**
+ * Drops voxels that fall outside the given dimensions
+ */
+export const cropVoxelsToDimensions = (voxels: Voxel[], dims: GridDimensions): Voxel[] => {
+  return voxels.filter(v => isInBounds(v.x, v.y, v.z, dims));
+};
+
+/**
+ * Checks whether a cell rests on the floor or on a column of voxels that
+ * reaches the floor (a voxel under a floating one gives no support)
+ */
+export const isSupported = (x: number, y: number, z: number, voxelSet: Set<string>): boolean => {
+  for (let below = y - 1; below >= 0; below--) {
+    if (!voxelSet.has(`${x},${below},${z}`)) return false;
+  }
+  return true;
+};
+
+/**
+ * Finds voxels that could not be stacked with real blocks: support spreads
+ * upward from the floor, and everything it doesn't reach is flagged
+ */
+export const findUnsupportedVoxels = (voxels: Voxel[]): Voxel[] => {
+  const supported = new Set<string>();
+  [...voxels].sort((a, b) => a.y - b.y).forEach(v => {
+    if (v.y === 0 || supported.has(`${v.x},${v.y - 1},${v.z}`)) supported.add(`${v.x},${v.y},${v.z}`);
+  });
+  return voxels.filter(v => !supported.has(`${v.x},${v.y},${v.z}`));
+};
+
+/**
+ * Finds voxels that do not show in the Top, Front or Side view:
+ * each one has another voxel above it, in front of it (+Z) and to its right (+X)
+ */
+export const findHiddenVoxels = (voxels: Voxel[]): Voxel[] => {
+  const voxelSet = getVoxelSet(voxels);
+  const maxCoord = Math.max(0, ...voxels.flatMap(v => [v.x, v.y, v.z]));
+
+  const isCovered = (v: Voxel, dx: number, dy: number, dz: number): boolean => {
+    for (let step = 1; step <= maxCoord; step++) {
+      if (voxelSet.has(`${v.x + dx * step},${v.y + dy * step},${v.z + dz * step}`)) return true;
+    }
+    return false;
+  };
+
+  return voxels.filter(v => isCovered(v, 0, 1, 0) && isCovered(v, 0, 0, 1) && isCovered(v, 1, 0, 0));
+};
+
 /**
  * Calculates stats: Count, Surface Area, Volume (Volume = Count for unit cubes)
  */
@@ -43,57 +97,251 @@ export const calculateStats = (voxels: Voxel[]): Stats => {
   };
 };
 
+/**
+ * Creates an empty blueprint (all three views cleared)
+ */
+export const createEmptyGridState = (dims: GridDimensions): GridState => ({
+  top: Array(dims.depth).fill(null).map(() => Array(dims.width).fill(false)),
+  front: Array(dims.height).fill(null).map(() => Array(dims.width).fill(false)),
+  side: Array(dims.height).fill(null).map(() => Array(dims.depth).fill(false)),
+});
+
+/**
+ * Resizes a blueprint to new dimensions, keeping cells that still fit.
+ * Front/Side rows are anchored to the floor so heights are preserved.
+ */
+export const resizeGridState = (grids: GridState, from: GridDimensions, to: GridDimensions): GridState => {
+  const resized = createEmptyGridState(to);
+
+  for (let z = 0; z < Math.min(from.depth, to.depth); z++) {
+    for (let x = 0; x < Math.min(from.width, to.width); x++) {
+      resized.top[z][x] = grids.top[z][x];
+    }
+  }
+
+  for (let y = 0; y < Math.min(from.height, to.height); y++) {
+    const fromRow = from.height - 1 - y;
+    const toRow = to.height - 1 - y;
+    for (let x = 0; x < Math.min(from.width, to.width); x++) {
+      resized.front[toRow][x] = grids.front[fromRow][x];
+    }
+    for (let z = 0; z < Math.min(from.depth, to.depth); z++) {
+      resized.side[toRow][z] = grids.side[fromRow][z];
+    }
+  }
+
+  return resized;
+};
+
+/**
+ * Creates an empty height map (Top View layout: row = Z, col = X)
+ */
+export const createEmptyHeightMap = (dims: GridDimensions): number[][] =>
+  Array(dims.depth).fill(null).map(() => Array(dims.width).fill(0));
+
+/**
+ * Resizes a height map, keeping cells that still fit and capping heights
+ */
+export const resizeHeightMap = (heights: number[][], from: GridDimensions, to: GridDimensions): number[][] => {
+  const resized = createEmptyHeightMap(to);
+  for (let z = 0; z < Math.min(from.depth, to.depth); z++) {
+    for (let x = 0; x < Math.min(from.width, to.width); x++) {
+      resized[z][x] = Math.min(heights[z][x], to.height);
+    }
+  }
+  return resized;
+};
+
+/**
+ * The exact structure described by a height map: every column is
+ * filled from the floor up to its height
+ */
+export const voxelsFromHeights = (heights: number[][], dims: GridDimensions): Voxel[] => {
+  const voxels: Voxel[] = [];
+  heights.forEach((row, z) => row.forEach((h, x) => {
+    for (let y = 0; y < Math.min(h, dims.height); y++) {
+      voxels.push({ x, y, z, id: `${x},${y},${z}` });
+    }
+  }));
+  return voxels;
+};
+
 /**
  * Generates 2D projections from the current 3D voxel state.
  * Returns boolean grids.
  */
-export const project3DTo2D = (voxels: Voxel[]): GridState => {
-  const top = Array(GRID_SIZE).fill(null).map(() => Array(GRID_SIZE).fill(false));
-  const front = Array(GRID_SIZE).fill(null).map(() => Array(GRID_SIZE).fill(false));
-  const side = Array(GRID_SIZE).fill(null).map(() => Array(GRID_SIZE).fill(false));
+export const project3DTo2D = (voxels: Voxel[], dims: GridDimensions): GridState => {
+  const { top, front, side } = createEmptyGridState(dims);
+  const { width, depth, height } = dims;
 
   voxels.forEach(v => {
-    if (v.x >= 0 && v.x < GRID_SIZE && v.z >= 0 && v.z < GRID_SIZE) {
+    if (v.x >= 0 && v.x < width && v.z >= 0 && v.z < depth) {
         top[v.z][v.x] = true; // Top view: Z is row, X is col
     }
-    if (v.x >= 0 && v.x < GRID_SIZE && v.y >= 0 && v.y < MAX_HEIGHT) {
-        front[MAX_HEIGHT - 1 - v.y][v.x] = true; // Front view: Y is inverted row, X is col
+    if (v.x >= 0 && v.x < width && v.y >= 0 && v.y < height) {
+        front[height - 1 - v.y][v.x] = true; // Front view: Y is inverted row, X is col
     }
-    if (v.z >= 0 && v.z < GRID_SIZE && v.y >= 0 && v.y < MAX_HEIGHT) {
-        side[MAX_HEIGHT - 1 - v.y][v.z] = true; // Side view (Right): Y is inverted row, Z is col (looking from right)
+    if (v.z >= 0 && v.z < depth && v.y >= 0 && v.y < height) {
+        side[height - 1 - v.y][v.z] = true; // Side view: Y is inverted row, Z is col (as seen from the left)
     }
   });
 
   return { top, front, side };
 };
 
+export interface ProjectedView {
+  filled: boolean[][];
+  counts: (number | null)[][]; // Blocks along each line of sight (view numbers)
+  nearest: (Voxel | null)[][]; // The block actually seen in each cell
+}
+
+interface ViewLayout {
+  rows: number;
+  cols: number;
+  // Grid cell of a voxel and its distance from the viewer
+  locate: (v: Voxel) => { row: number; col: number; distance: number };
+}
+
+/**
+ * Grid layout of each view as seen by someone standing on that side,
+ * head up (+Y). Top and Bottom put the back (-Z) at the top of the grid;
+ * Front is +Z and Right is +X.
+ */
+const getViewLayout = (direction: ViewDirection, dims: GridDimensions): ViewLayout => {
+  const { width, depth, height } = dims;
+  switch (direction) {
+    case 'top':
+      return { rows: depth, cols: width, locate: v => ({ row: v.z, col: v.x, distance: height - 1 - v.y }) };
+    case 'bottom':
+      return { rows: depth, cols: width, locate: v => ({ row: v.z, col: width - 1 - v.x, distance: v.y }) };
+    case 'front':
+      return { rows: height, cols: width, locate: v => ({ row: height - 1 - v.y, col: v.x, distance: depth - 1 - v.z }) };
+    case 'back':
+      return { rows: height, cols: width, locate: v => ({ row: height - 1 - v.y, col: width - 1 - v.x, distance: v.z }) };
+    case 'right':
+      return { rows: height, cols: depth, locate: v => ({ row: height - 1 - v.y, col: depth - 1 - v.z, distance: width - 1 - v.x }) };
+    case 'left':
+      return { rows: height, cols: depth, locate: v => ({ row: height - 1 - v.y, col: v.z, distance: v.x }) };
+  }
+};
+
+/**
+ * Projects a structure onto the grid seen from one direction.
+ * Unlike project3DTo2D, mirrored views (back, left, bottom) are laid out
+ * the way they really look, so numbers and colors land in the right cells.
+ */
+export const projectView = (voxels: Voxel[], dims: GridDimensions, direction: ViewDirection): ProjectedView => {
+  const { rows, cols, locate } = getViewLayout(direction, dims);
+  const counts: number[][] = Array(rows).fill(null).map(() => Array(cols).fill(0));
+  const nearest: (Voxel | null)[][] = Array(rows).fill(null).map(() => Array(cols).fill(null));
+  const nearestDistance: number[][] = Array(rows).fill(null).map(() => Array(cols).fill(Infinity));
+
+  cropVoxelsToDimensions(voxels, dims).forEach(v => {
+    const { row, col, distance } = locate(v);
+    counts[row][col] += 1;
+    if (distance < nearestDistance[row][col]) {
+      nearestDistance[row][col] = distance;
+      nearest[row][col] = v;
+    }
+  });
+
+  return {
+    filled: counts.map(row => row.map(n => n > 0)),
+    counts: counts.map(row => row.map(n => (n === 0 ? null : n))),
+    nearest
+  };
+};
+
+// Blueprint grid holding the same silhouette as each view; Side is laid
+// out as seen from the left, so Bottom, Back and Right are its mirror images
+export const BLUEPRINT_VIEW_OF: Record<ViewDirection, BlueprintView> = {
+  top: 'top',
+  bottom: 'top',
+  front: 'front',
+  back: 'front',
+  left: 'side',
+  right: 'side'
+};
+
+const isMirroredView = (direction: ViewDirection): boolean =>
+  direction === 'bottom' || direction === 'back' || direction === 'right';
+
+/**
+ * Maps a cell of a view grid back to the matching blueprint grid cell
+ */
+export const getBlueprintCell = (
+  direction: ViewDirection,
+  row: number,
+  col: number,
+  dims: GridDimensions
+): { view: BlueprintView; row: number; col: number } => {
+  const view = BLUEPRINT_VIEW_OF[direction];
+  const cols = view === 'side' ? dims.depth : dims.width;
+  return { view, row, col: isMirroredView(direction) ? cols - 1 - col : col };
+};
+
+/**
+ * Lays a blueprint grid out as seen from the given direction
+ * (the inverse of getBlueprintCell)
+ */
+export const orientBlueprintGrid = <T>(grids: Record<BlueprintView, T[][]>, direction: ViewDirection): T[][] => {
+  const grid = grids[BLUEPRINT_VIEW_OF[direction]];
+  return isMirroredView(direction) ? grid.map(row => [...row].reverse()) : grid;
+};
+
+export interface ViewMatch {
+  top: boolean;
+  front: boolean;
+  side: boolean;
+}
+
+const gridsEqual = (a: boolean[][], b: boolean[][]): boolean =>
+  a.every((row, r) => row.every((cell, c) => cell === b[r][c]));
+
+/**
+ * Checks, view by view, whether a built structure looks the same as the
+ * target from the top, front and side
+ */
+export const compareProjections = (target: Voxel[], built: Voxel[], dims: GridDimensions): ViewMatch => {
+  const a = project3DTo2D(target, dims);
+  const b = project3DTo2D(built, dims);
+  return {
+    top: gridsEqual(a.top, b.top),
+    front: gridsEqual(a.front, b.front),
+    side: gridsEqual(a.side, b.side)
+  };
+};
+
 // Helper to find the first active column (Min X or Min Z) in a grid
 const getFirstActiveColumn = (grid: boolean[][]): number => {
-  for (let c = 0; c < GRID_SIZE; c++) {
-    for (let r = 0; r < GRID_SIZE; r++) {
+  const cols = grid[0]?.length ?? 0;
+  for (let c = 0; c < cols; c++) {
+    for (let r = 0; r < grid.length; r++) {
       if (grid[r][c]) return c;
     }
   }
   return -1; // Empty
 };
 
+export interface BlueprintAlignment {
+  shiftX: number; // Front View column = x + shiftX
+  shiftZ: number; // Side View column = z + shiftZ
+}
+
 /**
- * Generates 3D voxels based on the intersection of 3 2D grids.
- * Algorithm: Max Fill with Smart Alignment.
- * It detects the start X/Z of each view and shifts them to align with the Top view.
+ * Smart alignment used when generating from a blueprint: the Front and Side
+ * views are shifted so their first shaded column lines up with the Top view.
+ * If a grid is empty, its shift is 0.
  */
-export const intersect2DTo3D = (grids: GridState): Voxel[] => {
-  const newVoxels: Voxel[] = [];
+export const alignBlueprint = (grids: GridState, dims: GridDimensions): BlueprintAlignment => {
+  const { width, depth } = dims;
 
-  // 1. Analyze offsets for smart alignment
-  // We align Front and Side views TO the Top view's position.
-  
   // Top View: Row=Z, Col=X
   const minX_Top = getFirstActiveColumn(grids.top);
   // We also need MinZ for Top. MinZ corresponds to the first active ROW in Top view.
   let minZ_Top = -1;
-  rowLoop: for (let r = 0; r < GRID_SIZE; r++) {
-      for (let c = 0; c < GRID_SIZE; c++) {
+  rowLoop: for (let r = 0; r < depth; r++) {
+      for (let c = 0; c < width; c++) {
           if (grids.top[r][c]) {
               minZ_Top = r;
               break rowLoop;
@@ -103,17 +351,30 @@ export const intersect2DTo3D = (grids: GridState): Voxel[] => {
 
   // Front View: Row=Y(inv), Col=X
   const minX_Front = getFirstActiveColumn(grids.front);
-  
+
   // Side View: Row=Y(inv), Col=Z
   const minZ_Side = getFirstActiveColumn(grids.side);
 
-  // Calculate shifts (If a grid is empty, shift is 0)
-  const shiftX = (minX_Top !== -1 && minX_Front !== -1) ? (minX_Front - minX_Top) : 0;
-  const shiftZ = (minZ_Top !== -1 && minZ_Side !== -1) ? (minZ_Side - minZ_Top) : 0;
+  return {
+    shiftX: (minX_Top !== -1 && minX_Front !== -1) ? (minX_Front - minX_Top) : 0,
+    shiftZ: (minZ_Top !== -1 && minZ_Side !== -1) ? (minZ_Side - minZ_Top) : 0
+  };
+};
+
+/**
+ * Generates 3D voxels based on the intersection of 3 2D grids.
+ * Algorithm: Max Fill with Smart Alignment (see alignBlueprint).
+ */
+export const intersect2DTo3D = (grids: GridState, dims: GridDimensions): Voxel[] => {
+  const newVoxels: Voxel[] = [];
+  const { width, depth, height } = dims;
+
+  // We align Front and Side views TO the Top view's position.
+  const { shiftX, shiftZ } = alignBlueprint(grids, dims);
 
-  for (let x = 0; x < GRID_SIZE; x++) {
-    for (let y = 0; y < MAX_HEIGHT; y++) {
-      for (let z = 0; z < GRID_SIZE; z++) {
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      for (let z = 0; z < depth; z++) {
         // Map 3D coords to 2D grid coords
         const hasTop = grids.top[z][x];
         
@@ -122,13 +383,13 @@ export const intersect2DTo3D = (grids: GridState): Voxel[] => {
         const sideZ = z + shiftZ;
 
         let hasFront = false;
-        if (frontX >= 0 && frontX < GRID_SIZE) {
-            hasFront = grids.front[MAX_HEIGHT - 1 - y][frontX];
+        if (frontX >= 0 && frontX < width) {
+            hasFront = grids.front[height - 1 - y][frontX];
         }
 
         let hasSide = false;
-        if (sideZ >= 0 && sideZ < GRID_SIZE) {
-            hasSide = grids.side[MAX_HEIGHT - 1 - y][sideZ];
+        if (sideZ >= 0 && sideZ < depth) {
+            hasSide = grids.side[height - 1 - y][sideZ];
         }
 
         if (hasTop && hasFront && hasSide) {
@@ -144,13 +405,138 @@ export const intersect2DTo3D = (grids: GridState): Voxel[] => {
   return newVoxels;
 };
 
+export type BlueprintView = keyof GridState;
+
+// A shaded cell that no block can produce, or an empty cell on a line
+// that another view says must be shaded
+export type BlueprintCellIssue = 'impossible' | 'missing' | null;
+
+export interface BlueprintLineIssue {
+  axis: 'x' | 'z' | 'y'; // Column along X, row along Z, or layer Y
+  index: number; // Column or row in the shaded view's own grid
+  shadedIn: BlueprintView;
+  emptyIn: BlueprintView;
+}
+
+export interface BlueprintAnalysis {
+  consistent: boolean; // Generating reproduces all three views exactly
+  cells: Record<BlueprintView, BlueprintCellIssue[][]>;
+  impossibleCounts: Record<BlueprintView, number>;
+  lineIssues: BlueprintLineIssue[];
+}
+
+/**
+ * Checks a blueprint the way intersect2DTo3D reads it (same alignment).
+ * A shaded cell is impossible when no cube position is shaded in the other
+ * two views as well; such cells are dropped when generating. Lines shaded
+ * in one view but completely empty in the matching view are reported too,
+ * since they are the usual reason cells become impossible.
+ */
+export const analyzeBlueprint = (grids: GridState, dims: GridDimensions): BlueprintAnalysis => {
+  const { width, depth, height } = dims;
+  const { shiftX, shiftZ } = alignBlueprint(grids, dims);
+
+  const at = (grid: boolean[][], row: number, col: number) => !!grid[row]?.[col];
+  const front = (x: number, y: number) => at(grids.front, height - 1 - y, x + shiftX);
+  const side = (z: number, y: number) => at(grids.side, height - 1 - y, z + shiftZ);
+  const top = (x: number, z: number) => at(grids.top, z, x);
+
+  const cells: Record<BlueprintView, BlueprintCellIssue[][]> = {
+    top: grids.top.map(row => row.map(() => null)),
+    front: grids.front.map(row => row.map(() => null)),
+    side: grids.side.map(row => row.map(() => null))
+  };
+  const impossibleCounts: Record<BlueprintView, number> = { top: 0, front: 0, side: 0 };
+  const markImpossible = (view: BlueprintView, row: number, col: number) => {
+    cells[view][row][col] = 'impossible';
+    impossibleCounts[view]++;
+  };
+
+  const range = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+  range(depth).forEach(z => range(width).forEach(x => {
+    if (grids.top[z][x] && !range(height).some(y => front(x, y) && side(z, y))) {
+      markImpossible('top', z, x);
+    }
+  }));
+  range(height).forEach(y => {
+    const row = height - 1 - y;
+    range(width).forEach(col => {
+      const x = col - shiftX;
+      if (grids.front[row][col] && !range(depth).some(z => top(x, z) && side(z, y))) {
+        markImpossible('front', row, col);
+      }
+    });
+    range(depth).forEach(col => {
+      const z = col - shiftZ;
+      if (grids.side[row][col] && !range(width).some(x => top(x, z) && front(x, y))) {
+        markImpossible('side', row, col);
+      }
+    });
+  });
+
+  // Whole lines shaded in one view and empty in the other
+  const lineIssues: BlueprintLineIssue[] = [];
+  const markMissing = (view: BlueprintView, cellsOnLine: [number, number][]) => {
+    cellsOnLine.forEach(([row, col]) => {
+      if (cells[view][row]?.[col] === null && !grids[view][row][col]) cells[view][row][col] = 'missing';
+    });
+  };
+
+  const topColumn = (x: number): [number, number][] => range(depth).map(z => [z, x]);
+  const topRow = (z: number): [number, number][] => range(width).map(x => [z, x]);
+  const viewColumn = (col: number): [number, number][] => range(height).map(row => [row, col]);
+  const frontRow = (row: number): [number, number][] => range(width).map(col => [row, col]);
+  const sideRow = (row: number): [number, number][] => range(depth).map(col => [row, col]);
+  const isShaded = (view: BlueprintView, line: [number, number][]) =>
+    line.some(([row, col]) => at(grids[view], row, col));
+
+  const compareLines = (
+    axis: BlueprintLineIssue['axis'],
+    count: number,
+    shift: number,
+    a: { view: BlueprintView; line: (i: number) => [number, number][] },
+    b: { view: BlueprintView; line: (i: number) => [number, number][] }
+  ) => {
+    // Line i of view a matches line i + shift of view b
+    range(count).forEach(i => {
+      const j = i + shift;
+      const bShaded = j >= 0 && j < count && isShaded(b.view, b.line(j));
+      if (isShaded(a.view, a.line(i)) && !bShaded) {
+        lineIssues.push({ axis, index: i, shadedIn: a.view, emptyIn: b.view });
+        if (j >= 0 && j < count) markMissing(b.view, b.line(j));
+      }
+    });
+    range(count).forEach(j => {
+      const i = j - shift;
+      const aShaded = i >= 0 && i < count && isShaded(a.view, a.line(i));
+      if (isShaded(b.view, b.line(j)) && !aShaded) {
+        lineIssues.push({ axis, index: j, shadedIn: b.view, emptyIn: a.view });
+        if (i >= 0 && i < count) markMissing(a.view, a.line(i));
+      }
+    });
+  };
+
+  compareLines('x', width, shiftX, { view: 'top', line: topColumn }, { view: 'front', line: viewColumn });
+  compareLines('z', depth, shiftZ, { view: 'top', line: topRow }, { view: 'side', line: viewColumn });
+  compareLines('y', height, 0, { view: 'front', line: frontRow }, { view: 'side', line: sideRow });
+
+  return {
+    consistent: impossibleCounts.top + impossibleCounts.front + impossibleCounts.side === 0,
+    cells,
+    impossibleCounts,
+    lineIssues
+  };
+};
+
 /**
  * Generates a height map string for the Top View (used for learning aid)
  */
-export const generateTopViewNumbers = (voxels: Voxel[]): (number | null)[][] => {
-  const grid = Array(GRID_SIZE).fill(null).map(() => Array(GRID_SIZE).fill(0));
+export const generateTopViewNumbers = (voxels: Voxel[], dims: GridDimensions): (number | null)[][] => {
+  const grid = Array(dims.depth).fill(null).map(() => Array(dims.width).fill(0));
   
   voxels.forEach(v => {
+     if (v.z < 0 || v.z >= dims.depth || v.x < 0 || v.x >= dims.width) return;
      if (grid[v.z][v.x] < v.y + 1) {
        grid[v.z][v.x] = v.y + 1;
      }
@@ -159,39 +545,318 @@ export const generateTopViewNumbers = (voxels: Voxel[]): (number | null)[][] =>
   return grid.map(row => row.map(val => val === 0 ? null : val));
 }
 
+/**
+ * Column heights of a structure (Top View numbers, 0 for empty cells)
+ */
+export const heightsFromVoxels = (voxels: Voxel[], dims: GridDimensions): number[][] =>
+  generateTopViewNumbers(voxels, dims).map(row => row.map(n => n ?? 0));
+
 /**
  * Generates depth numbers for Front View (Count along Z axis for each X,Y)
  */
-export const generateFrontViewNumbers = (voxels: Voxel[]): (number | null)[][] => {
-  const grid = Array(MAX_HEIGHT).fill(null).map(() => Array(GRID_SIZE).fill(0));
+export const generateFrontViewNumbers = (voxels: Voxel[], dims: GridDimensions): (number | null)[][] =>
+  projectView(voxels, dims, 'front').counts;
 
-  voxels.forEach(v => {
-    // Row index for Y is inverted (MAX_HEIGHT - 1 - y)
-    const row = MAX_HEIGHT - 1 - v.y;
-    const col = v.x;
+export interface ProjectionSolution {
+  consistent: boolean; // Whether any structure produces exactly these views
+  min: number;
+  max: number;
+  minVoxels: Voxel[]; // Example structure with the fewest cubes
+  maxVoxels: Voxel[]; // The "Max Fill" structure
+  exact: boolean; // False if the minimum search hit its budget (min is then an upper bound)
+  minBound: number; // Proven lower bound on the minimum; equals min when exact
+}
+
+// Node budget for the minimum search; keeps large boards responsive
+const MIN_SEARCH_BUDGET = 200000;
 
-    if (row >= 0 && row < MAX_HEIGHT && col >= 0 && col < GRID_SIZE) {
-      grid[row][col] += 1;
+/**
+ * Finds the minimum and maximum number of cubes consistent with the
+ * Top, Front and Side views (no alignment shifts are applied).
+ *
+ * Every cube must sit where all three views are shaded. The maximum is
+ * every such cell. The minimum is the smallest subset that still shades
+ * every view cell: each cube covers one Top, one Front and one Side cell,
+ * so this is a small set-cover problem solved by branch and bound.
+ */
+export const solveProjections = (grids: GridState, dims: GridDimensions): ProjectionSolution => {
+  const { width, depth, height } = dims;
+
+  // Requirement ids: Top cells, then Front cells, then Side cells
+  const topId = (x: number, z: number) => z * width + x;
+  const frontId = (x: number, y: number) => width * depth + y * width + x;
+  const sideId = (z: number, y: number) => width * depth + width * height + y * depth + z;
+  const requirementCount = width * depth + width * height + depth * height;
+
+  const required: boolean[] = Array(requirementCount).fill(false);
+  for (let z = 0; z < depth; z++) {
+    for (let x = 0; x < width; x++) {
+      if (grids.top[z][x]) required[topId(x, z)] = true;
     }
-  });
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (grids.front[height - 1 - y][x]) required[frontId(x, y)] = true;
+    }
+    for (let z = 0; z < depth; z++) {
+      if (grids.side[height - 1 - y][z]) required[sideId(z, y)] = true;
+    }
+  }
 
-  return grid.map(row => row.map(val => val === 0 ? null : val));
+  // Candidate cubes and the requirements each one covers
+  const candidates: Voxel[] = [];
+  const covers: [number, number, number][] = [];
+  const coveredBy: number[][] = Array(requirementCount).fill(null).map(() => []);
+
+  for (let y = 0; y < height; y++) {
+    for (let z = 0; z < depth; z++) {
+      for (let x = 0; x < width; x++) {
+        const reqs: [number, number, number] = [topId(x, z), frontId(x, y), sideId(z, y)];
+        if (!reqs.every(r => required[r])) continue;
+        const index = candidates.length;
+        candidates.push({ x, y, z, id: `${x},${y},${z}` });
+        covers.push(reqs);
+        reqs.forEach(r => coveredBy[r].push(index));
+      }
+    }
+  }
+
+  const requirements = required.flatMap((isRequired, id) => (isRequired ? [id] : []));
+  const consistent = requirements.every(r => coveredBy[r].length > 0);
+
+  if (!consistent) {
+    return { consistent, min: 0, max: 0, minVoxels: [], maxVoxels: [], exact: true, minBound: 0 };
+  }
+
+  // --- Minimum cover search ---
+  const coverCount: number[] = Array(requirementCount).fill(0);
+
+  // Uncovered counts: Top overall, and Front/Side per layer
+  let uncoveredTop = 0;
+  const uncoveredFront: number[] = Array(height).fill(0);
+  const uncoveredSide: number[] = Array(height).fill(0);
+  const frontStart = width * depth;
+  const sideStart = frontStart + width * height;
+
+  const adjustUncovered = (r: number, delta: number) => {
+    if (r < frontStart) uncoveredTop += delta;
+    else if (r < sideStart) uncoveredFront[Math.floor((r - frontStart) / width)] += delta;
+    else uncoveredSide[Math.floor((r - sideStart) / depth)] += delta;
+  };
+  requirements.forEach(r => adjustUncovered(r, 1));
+
+  const chosen: number[] = [];
+  const gain = (c: number) => covers[c].filter(r => coverCount[r] === 0).length;
+
+  // Each cube covers one Top cell, and one Front and one Side cell of its own layer
+  const getLowerBound = () => {
+    let layerBound = 0;
+    for (let y = 0; y < height; y++) {
+      layerBound += Math.max(uncoveredFront[y], uncoveredSide[y]);
+    }
+    return Math.max(uncoveredTop, layerBound);
+  };
+  const rootBound = getLowerBound();
+
+  const choose = (c: number) => {
+    chosen.push(c);
+    covers[c].forEach(r => {
+      if (coverCount[r]++ === 0) adjustUncovered(r, -1);
+    });
+  };
+  const unchoose = (c: number) => {
+    chosen.pop();
+    covers[c].forEach(r => {
+      if (--coverCount[r] === 0) adjustUncovered(r, 1);
+    });
+  };
+
+  // Greedy pass gives the first upper bound
+  while (requirements.some(r => coverCount[r] === 0)) {
+    let bestCandidate = -1;
+    let bestGain = 0;
+    candidates.forEach((_, c) => {
+      const g = gain(c);
+      if (g > bestGain) {
+        bestGain = g;
+        bestCandidate = c;
+      }
+    });
+    choose(bestCandidate);
+  }
+  let best = [...chosen];
+  [...chosen].reverse().forEach(unchoose);
+
+  let nodes = 0;
+  let exact = true;
+
+  const search = () => {
+    if (++nodes > MIN_SEARCH_BUDGET) {
+      exact = false;
+      return;
+    }
+
+    const lowerBound = getLowerBound();
+    if (lowerBound === 0) {
+      if (chosen.length < best.length) best = [...chosen];
+      return;
+    }
+    if (chosen.length + lowerBound >= best.length) return;
+
+    // Branch on the uncovered requirement with the fewest options
+    let pivot = -1;
+    for (const r of requirements) {
+      if (coverCount[r] > 0) continue;
+      if (pivot === -1 || coveredBy[r].length < coveredBy[pivot].length) pivot = r;
+    }
+
+    const options = [...coveredBy[pivot]].sort((a, b) => gain(b) - gain(a));
+    for (const c of options) {
+      choose(c);
+      search();
+      unchoose(c);
+      if (!exact) return;
+    }
+  };
+
+  search();
+
+  return {
+    consistent,
+    min: best.length,
+    max: candidates.length,
+    minVoxels: best.map(c => candidates[c]),
+    maxVoxels: candidates,
+    exact,
+    minBound: exact ? best.length : rootBound
+  };
 };
 
 /**
- * Generates depth numbers for Side View (Count along X axis for each Z,Y)
+ * The blueprint with the Front and Side views shifted into Top view
+ * columns, so it can be read without alignment (see alignBlueprint)
  */
-export const generateSideViewNumbers = (voxels: Voxel[]): (number | null)[][] => {
-  const grid = Array(MAX_HEIGHT).fill(null).map(() => Array(GRID_SIZE).fill(0));
+export const alignBlueprintGrids = (grids: GridState, dims: GridDimensions): GridState => {
+  const { shiftX, shiftZ } = alignBlueprint(grids, dims);
+  return {
+    top: grids.top,
+    front: grids.front.map(row => row.map((_, x) => !!row[x + shiftX])),
+    side: grids.side.map(row => row.map((_, z) => !!row[z + shiftZ]))
+  };
+};
 
-  voxels.forEach(v => {
-    const row = MAX_HEIGHT - 1 - v.y;
-    const col = v.z; // Side view (Right) uses Z as column
+export type BlueprintFill = 'max' | 'min' | 'random';
 
-    if (row >= 0 && row < MAX_HEIGHT && col >= 0 && col < GRID_SIZE) {
-      grid[row][col] += 1;
+/**
+ * Builds a structure from a blueprint.
+ * 'max' is the Max Fill of intersect2DTo3D and 'min' the fewest cubes with
+ * the same three views. 'random' removes cubes from the Max Fill in random
+ * order, keeping every view cell shaded, until it reaches a random count
+ * in between. Inconsistent blueprints always get the Max Fill.
+ */
+export const fillBlueprint = (
+  grids: GridState,
+  dims: GridDimensions,
+  fill: BlueprintFill,
+  random: () => number = Math.random
+): Voxel[] => {
+  if (fill === 'max') return intersect2DTo3D(grids, dims);
+  const solution = solveProjections(alignBlueprintGrids(grids, dims), dims);
+  if (!solution.consistent) return intersect2DTo3D(grids, dims);
+  if (fill === 'min') return solution.minVoxels;
+
+  const target = solution.min + Math.floor(random() * (solution.max - solution.min + 1));
+  const voxels = [...solution.maxVoxels];
+  for (let i = voxels.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [voxels[i], voxels[j]] = [voxels[j], voxels[i]];
+  }
+
+  // How many cubes shade each Top, Front and Side cell
+  const shading = new Map<string, number>();
+  const cellsOf = (v: Voxel) => [`t${v.x},${v.z}`, `f${v.x},${v.y}`, `s${v.z},${v.y}`];
+  voxels.forEach(v => cellsOf(v).forEach(key => shading.set(key, (shading.get(key) ?? 0) + 1)));
+
+  const kept: Voxel[] = [];
+  let count = voxels.length;
+  voxels.forEach(v => {
+    const cells = cellsOf(v);
+    if (count > target && cells.every(key => shading.get(key)! > 1)) {
+      cells.forEach(key => shading.set(key, shading.get(key)! - 1));
+      count--;
+    } else {
+      kept.push(v);
     }
   });
+  return kept;
+};
 
-  return grid.map(row => row.map(val => val === 0 ? null : val));
+export type TransformAxis = 'x' | 'y' | 'z';
+
+// A whole-structure edit; rotations are quarter turns (right-handed about the axis)
+export type StructureTransform =
+  | { kind: 'rotate'; axis: TransformAxis; direction: 1 | -1 }
+  | { kind: 'mirror'; axis: 'x' | 'z' }
+  | { kind: 'translate'; offset: Vector3 };
+
+export type TransformResult =
+  | { voxels: Voxel[]; error: null }
+  | { voxels: null; error: 'out-of-bounds' | 'collision' };
+
+const getBounds = (voxels: Voxel[]) => ({
+  min: [Math.min(...voxels.map(v => v.x)), Math.min(...voxels.map(v => v.y)), Math.min(...voxels.map(v => v.z))],
+  max: [Math.max(...voxels.map(v => v.x)), Math.max(...voxels.map(v => v.y)), Math.max(...voxels.map(v => v.z))]
+});
+
+const rotatePoint = ([x, y, z]: Vector3, axis: TransformAxis, direction: 1 | -1): Vector3 => {
+  const d = direction;
+  if (axis === 'y') return [d * z, y, -d * x];
+  if (axis === 'x') return [x, -d * z, d * y];
+  return [-d * y, d * x, z];
+};
+
+/**
+ * Rotates, mirrors or moves the whole structure inside the grid.
+ * Rotations and mirrors keep the bounding box where it was (its low corner
+ * stays put, shifted back inside the grid if the new shape sticks out);
+ * translations move by exactly the offset. Fails when the result does not fit
+ * the grid or two blocks would land in the same cell.
+ */
+export const applyTransform = (voxels: Voxel[], transform: StructureTransform, dims: GridDimensions): TransformResult => {
+  if (voxels.length === 0) return { voxels, error: null };
+
+  let moved: Vector3[];
+  if (transform.kind === 'translate') {
+    const [dx, dy, dz] = transform.offset;
+    moved = voxels.map(v => [v.x + dx, v.y + dy, v.z + dz]);
+  } else {
+    const mapped: Vector3[] = voxels.map(v =>
+      transform.kind === 'rotate'
+        ? rotatePoint([v.x, v.y, v.z], transform.axis, transform.direction)
+        : transform.axis === 'x' ? [-v.x, v.y, v.z] : [v.x, v.y, -v.z]
+    );
+
+    // Put the new bounding box back on the old low corner, inside the grid
+    const before = getBounds(voxels).min;
+    const mappedMin = [0, 1, 2].map(i => Math.min(...mapped.map(p => p[i])));
+    const mappedMax = [0, 1, 2].map(i => Math.max(...mapped.map(p => p[i])));
+    const limits = [dims.width, dims.height, dims.depth];
+    const shift = [0, 1, 2].map(i => {
+      const size = mappedMax[i] - mappedMin[i] + 1;
+      return Math.min(before[i], limits[i] - size) - mappedMin[i];
+    });
+    moved = mapped.map(p => [p[0] + shift[0], p[1] + shift[1], p[2] + shift[2]]);
+  }
+
+  if (moved.some(([x, y, z]) => !isInBounds(x, y, z, dims))) {
+    return { voxels: null, error: 'out-of-bounds' };
+  }
+  const result = voxels.map((v, i) => {
+    const [x, y, z] = moved[i];
+    return { ...v, x, y, z, id: `${x},${y},${z}` };
+  });
+  if (getVoxelSet(result).size !== result.length) {
+    return { voxels: null, error: 'collision' };
+  }
+  return { voxels: result, error: null };
 };
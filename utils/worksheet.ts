@@ -0,0 +1,283 @@
+import { Voxel, GridDimensions, ViewDirection } from '../types';
+import { buildIsometricDrawing } from './isometric';
+import { calculateStats, projectView } from './voxelEngine';
+import { VIEWS, getViewNumbers } from './views';
+import { PdfPath, PdfText, createPdfDocument, estimateTextWidth } from './pdfWriter';
+
+export interface WorksheetProblem {
+  name: string;
+  voxels: Voxel[];
+  dimensions: GridDimensions;
+}
+
+export interface WorksheetOptions {
+  title: string;
+  views: ViewDirection[];
+  showNumbers: boolean; // Print view numbers in the problem grids
+  answerKey: boolean; // Append answer-key pages
+}
+
+// One drawing primitive, in points from the top-left corner of an A4 page
+export type WorksheetShape = ({ kind: 'path' } & PdfPath) | ({ kind: 'text' } & PdfText);
+
+export interface WorksheetPage {
+  shapes: WorksheetShape[];
+}
+
+// A4 in points
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_TOP = 96;
+const PROBLEMS_PER_PAGE = 3;
+const PROBLEM_HEIGHT = 235;
+const KEYS_PER_PAGE = 5;
+const KEY_HEIGHT = 140;
+const GRID_GAP = 12;
+
+const INK = '#1F2937';
+const MUTED = '#6B7280';
+const RULE = '#D1D5DB';
+const SHADE = '#D1D5DB';
+
+const FONT_FAMILY = "'Malgun Gothic', 'Apple SD Gothic Neo', 'Noto Sans KR', sans-serif";
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const rect = (x: number, y: number, width: number, height: number, fill: string | null, stroke: string | null, lineWidth = 0.5): WorksheetShape => ({
+  kind: 'path',
+  points: [[x, y], [x + width, y], [x + width, y + height], [x, y + height]],
+  closed: true,
+  fill,
+  stroke,
+  lineWidth
+});
+
+const line = (x1: number, y1: number, x2: number, y2: number, stroke: string, dash?: number[]): WorksheetShape => ({
+  kind: 'path',
+  points: [[x1, y1], [x2, y2]],
+  closed: false,
+  fill: null,
+  stroke,
+  lineWidth: 0.75,
+  dash
+});
+
+const text = (x: number, y: number, value: string, size: number, options: Partial<PdfText> = {}): WorksheetShape => ({
+  kind: 'text',
+  x,
+  y,
+  text: value,
+  size,
+  color: INK,
+  ...options
+});
+
+// Line-art isometric drawing, scaled to fit and centered in the box
+const drawIsometric = (voxels: Voxel[], box: Box): WorksheetShape[] => {
+  const drawing = buildIsometricDrawing(voxels, true);
+  const scale = Math.min((box.width - 16) / drawing.width, (box.height - 16) / drawing.height, 28);
+  const offsetX = box.x + (box.width - drawing.width * scale) / 2 - drawing.minX * scale;
+  const offsetY = box.y + (box.height - drawing.height * scale) / 2 - drawing.minY * scale;
+
+  return drawing.polygons.map(polygon => ({
+    kind: 'path',
+    points: polygon.points.map(([x, y]) => [offsetX + x * scale, offsetY + y * scale] as [number, number]),
+    closed: true,
+    fill: polygon.fill,
+    stroke: INK,
+    lineWidth: 0.8
+  }));
+};
+
+/**
+ * Projection grids for the chosen views, side by side in the box, with the
+ * view name above each grid. Numbers are printed when `withNumbers` is set.
+ */
+const drawViewGrids = (problem: WorksheetProblem, views: ViewDirection[], box: Box, withNumbers: boolean): WorksheetShape[] => {
+  const shapes: WorksheetShape[] = [];
+  const grids = views.map(direction => ({
+    direction,
+    filled: projectView(problem.voxels, problem.dimensions, direction).filled,
+    numbers: withNumbers ? getViewNumbers(problem.voxels, problem.dimensions, direction) : null
+  }));
+  const labelHeight = 14;
+  const totalCols = grids.reduce((sum, g) => sum + (g.filled[0]?.length ?? 0), 0);
+  const maxRows = Math.max(...grids.map(g => g.filled.length));
+  const cell = Math.min(
+    18,
+    (box.height - labelHeight) / maxRows,
+    (box.width - GRID_GAP * (grids.length - 1)) / Math.max(totalCols, 1)
+  );
+
+  let x = box.x;
+  grids.forEach(({ direction, filled, numbers }) => {
+    const cols = filled[0]?.length ?? 0;
+    const gridWidth = cols * cell;
+    const label = VIEWS[direction].short;
+    const slotWidth = Math.max(gridWidth, 30);
+    const gridLeft = x + (slotWidth - gridWidth) / 2;
+
+    shapes.push(text(x + slotWidth / 2, box.y + 9, label, 9, { align: 'center', color: MUTED }));
+    filled.forEach((row, r) => {
+      row.forEach((isFilled, c) => {
+        const cellX = gridLeft + c * cell;
+        const cellY = box.y + labelHeight + r * cell;
+        shapes.push(rect(cellX, cellY, cell, cell, isFilled ? SHADE : '#FFFFFF', MUTED));
+        const value = numbers?.[r][c];
+        if (value) {
+          shapes.push(text(cellX + cell / 2, cellY + cell * 0.7, String(value), cell * 0.6, { align: 'center', bold: true }));
+        }
+      });
+    });
+    x += slotWidth + GRID_GAP;
+  });
+
+  return shapes;
+};
+
+// Labelled empty box for the student's answer, followed by the unit
+const drawAnswerBox = (x: number, y: number, label: string, unit: string): WorksheetShape[] => {
+  const labelWidth = estimateTextWidth(label, 11) + 6;
+  return [
+    text(x, y + 16, label, 11),
+    rect(x + labelWidth, y, 64, 24, null, INK, 0.75),
+    text(x + labelWidth + 70, y + 16, unit, 11)
+  ];
+};
+
+const drawHeader = (title: string, withNameField: boolean): WorksheetShape[] => [
+  text(MARGIN, 64, title, 18, { bold: true }),
+  ...(withNameField ? [text(PAGE_WIDTH - MARGIN - 170, 64, '이름: ____________', 11)] : []),
+  line(MARGIN, 78, PAGE_WIDTH - MARGIN, 78, INK)
+];
+
+const drawFooter = (pageNumber: number, pageCount: number): WorksheetShape =>
+  text(PAGE_WIDTH / 2, PAGE_HEIGHT - 20, `${pageNumber} / ${pageCount}`, 9, { align: 'center', color: MUTED });
+
+const drawProblem = (problem: WorksheetProblem, number: number, top: number, options: WorksheetOptions): WorksheetShape[] => {
+  const drawingBox = { x: MARGIN, y: top + 28, width: 160, height: 150 };
+  return [
+    text(MARGIN, top + 16, `${number}.`, 13, { bold: true }),
+    text(MARGIN + 22, top + 16, '쌓기나무로 쌓은 모양을 보고 물음에 답하세요.', 11),
+    rect(drawingBox.x, drawingBox.y, drawingBox.width, drawingBox.height, null, RULE),
+    ...drawIsometric(problem.voxels, drawingBox),
+    ...drawViewGrids(
+      problem,
+      options.views,
+      { x: MARGIN + 176, y: top + 28, width: CONTENT_WIDTH - 176, height: 150 },
+      options.showNumbers
+    ),
+    ...drawAnswerBox(MARGIN, top + 190, '블록 수', '개'),
+    ...drawAnswerBox(MARGIN + 200, top + 190, '겉넓이', '면')
+  ];
+};
+
+const drawAnswer = (problem: WorksheetProblem, number: number, top: number, views: ViewDirection[]): WorksheetShape[] => {
+  const stats = calculateStats(problem.voxels);
+  return [
+    text(MARGIN, top + 16, `${number}. 블록 수 ${stats.count}개 · 겉넓이 ${stats.surfaceArea}면`, 12, { bold: true }),
+    ...drawIsometric(problem.voxels, { x: MARGIN, y: top + 26, width: 100, height: 100 }),
+    ...drawViewGrids(problem, views, { x: MARGIN + 116, y: top + 26, width: CONTENT_WIDTH - 116, height: 100 }, true)
+  ];
+};
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+/**
+ * Lays out the problems on A4 pages (three per page), followed by answer-key
+ * pages with block counts, surface areas and numbered view grids
+ */
+export const layoutWorksheet = (problems: WorksheetProblem[], options: WorksheetOptions): WorksheetPage[] => {
+  const problemPages = chunk(problems, PROBLEMS_PER_PAGE).map((group, pageIndex) => {
+    const shapes = drawHeader(options.title, true);
+    group.forEach((problem, i) => {
+      const top = CONTENT_TOP + i * PROBLEM_HEIGHT;
+      shapes.push(...drawProblem(problem, pageIndex * PROBLEMS_PER_PAGE + i + 1, top, options));
+      if (i < group.length - 1) {
+        shapes.push(line(MARGIN, top + PROBLEM_HEIGHT - 8, PAGE_WIDTH - MARGIN, top + PROBLEM_HEIGHT - 8, RULE, [4, 3]));
+      }
+    });
+    return shapes;
+  });
+
+  const keyPages = options.answerKey
+    ? chunk(problems, KEYS_PER_PAGE).map((group, pageIndex) => {
+      const shapes = drawHeader(`${options.title} - 정답`, false);
+      group.forEach((problem, i) => {
+        shapes.push(...drawAnswer(problem, pageIndex * KEYS_PER_PAGE + i + 1, CONTENT_TOP + i * KEY_HEIGHT, options.views));
+      });
+      return shapes;
+    })
+    : [];
+
+  const pages = [...problemPages, ...keyPages];
+  return pages.map((shapes, i) => ({ shapes: [...shapes, drawFooter(i + 1, pages.length)] }));
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatPoints = (points: [number, number][]): string =>
+  points.map(([x, y]) => `${x.toFixed(2)},${y.toFixed(2)}`).join(' ');
+
+export const worksheetPageToSvg = (page: WorksheetPage): string => {
+  const body = page.shapes.map(shape => {
+    if (shape.kind === 'text') {
+      const anchor = shape.align === 'center' ? ' text-anchor="middle"' : '';
+      const weight = shape.bold ? ' font-weight="bold"' : '';
+      return `<text x="${shape.x.toFixed(2)}" y="${shape.y.toFixed(2)}" font-size="${shape.size.toFixed(2)}" fill="${shape.color}"${anchor}${weight}>${escapeXml(shape.text)}</text>`;
+    }
+    const tag = shape.closed ? 'polygon' : 'polyline';
+    const dash = shape.dash ? ` stroke-dasharray="${shape.dash.join(' ')}"` : '';
+    return `<${tag} points="${formatPoints(shape.points)}" fill="${shape.fill ?? 'none'}" stroke="${shape.stroke ?? 'none'}" stroke-width="${shape.lineWidth}" stroke-linejoin="round"${dash}/>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}" width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}" font-family="${escapeXml(FONT_FAMILY)}">` +
+    `<rect width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}" fill="#FFFFFF"/>${body.join('')}</svg>`;
+};
+
+/**
+ * Print-ready HTML document with one SVG per A4 page.
+ * With `autoPrint`, the print dialog opens as soon as the page loads.
+ */
+export const worksheetToHtml = (pages: WorksheetPage[], title: string, autoPrint = false): string => `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>
+  @page { size: A4; margin: 0; }
+  body { margin: 0; }
+  svg { display: block; width: 210mm; height: 297mm; break-after: page; }
+  svg:last-child { break-after: auto; }
+  @media screen {
+    body { background: #E5E7EB; padding: 16px 0; }
+    svg { margin: 0 auto 16px; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.2); }
+  }
+</style>
+</head>
+<body${autoPrint ? ' onload="window.print()"' : ''}>
+${pages.map(worksheetPageToSvg).join('\n')}
+</body>
+</html>`;
+
+export const worksheetToPdf = (pages: WorksheetPage[]): Blob => {
+  const pdf = createPdfDocument(PAGE_WIDTH, PAGE_HEIGHT);
+  pages.forEach(page => {
+    const pdfPage = pdf.addPage();
+    page.shapes.forEach(shape => {
+      if (shape.kind === 'text') pdfPage.text(shape);
+      else pdfPage.path(shape);
+    });
+  });
+  return pdf.toBlob();
+};